@@ -0,0 +1,113 @@
+/**
+ * Tests for runtime environment detection
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createBackendBridge, detectBackends } from './environment';
+import { GoogleCastBackend } from './google-cast-backend';
+import { PresentationApiBackend } from './presentation-backend';
+import { Bridge, WebViewBridge } from './webview-bridge';
+import { CastKitClient } from '../core/client';
+
+/**
+ * The globals the backends are detected by
+ */
+const probed = window as unknown as Record<string, unknown>;
+
+/**
+ * The bridge a client talks to
+ */
+const bridgeOf = (client: CastKitClient) => (client as unknown as { bridge: Bridge }).bridge;
+
+describe('Environment detection', () => {
+  afterEach(() => {
+    probed.ReactNativeWebView = undefined;
+    probed.PresentationRequest = undefined;
+    probed.chrome = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it('finds no backend in a plain page', () => {
+    expect(detectBackends()).toEqual([]);
+  });
+
+  it('detects the OpenGame App from the user agent', () => {
+    vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue('Mozilla/5.0 OpenGame/1.2.0');
+
+    expect(detectBackends()).toEqual(['opengame']);
+  });
+
+  it('lists every available backend, best first', () => {
+    probed.ReactNativeWebView = { postMessage: vi.fn() };
+    probed.PresentationRequest = class {};
+    probed.chrome = {};
+
+    expect(detectBackends({ googleCast: { receiverApplicationId: 'APP123' } })).toEqual([
+      'react-native',
+      'google-cast',
+      'presentation',
+    ]);
+  });
+
+  it('only offers Google Cast when a receiver app is configured', () => {
+    probed.chrome = {};
+
+    expect(detectBackends()).toEqual([]);
+  });
+
+  it('creates the bridge for each backend', () => {
+    expect(createBackendBridge(null)).toBeInstanceOf(WebViewBridge);
+    expect(createBackendBridge('presentation')).toBeInstanceOf(PresentationApiBackend);
+    expect(
+      createBackendBridge('google-cast', { googleCast: { receiverApplicationId: 'APP123' } })
+    ).toBeInstanceOf(GoogleCastBackend);
+    expect(() => createBackendBridge('google-cast')).toThrow('googleCast.receiverApplicationId');
+  });
+
+  it('passes the allowed origins to the OpenGame App bridge', () => {
+    const bridge = createBackendBridge(null, { allowedOrigins: ['https://game.example.com'] });
+    const listener = vi.fn();
+    bridge.addEventListener('message', listener);
+    const data = { type: 'CAST_DEVICES_UPDATED', payload: { devices: [] }, source: 'cast-kit-native' };
+
+    window.dispatchEvent(new MessageEvent('message', { data, origin: 'https://evil.example.com' }));
+
+    expect(listener).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new MessageEvent('message', { data, origin: 'https://game.example.com' }));
+
+    expect(listener).toHaveBeenCalled();
+    bridge.dispose?.();
+  });
+
+  describe('backend selection', () => {
+    it('picks the best available backend and exposes it in the state', () => {
+      probed.PresentationRequest = class {};
+
+      const client = new CastKitClient();
+
+      expect(client.getState().environment).toEqual({
+        available: ['presentation'],
+        backend: 'presentation',
+      });
+      expect(bridgeOf(client)).toBeInstanceOf(PresentationApiBackend);
+    });
+
+    it('uses the backend given in the options', () => {
+      probed.PresentationRequest = class {};
+
+      const client = new CastKitClient({ backend: 'opengame' });
+
+      expect(client.getState().environment.backend).toBe('opengame');
+      expect(bridgeOf(client)).toBeInstanceOf(WebViewBridge);
+    });
+
+    it('reports a bridge passed in the options as custom', () => {
+      const bridge = new WebViewBridge();
+      const client = new CastKitClient({ bridge });
+
+      expect(client.getState().environment.backend).toBe('custom');
+      expect(bridgeOf(client)).toBe(bridge);
+    });
+  });
+});
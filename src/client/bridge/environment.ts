@@ -0,0 +1,150 @@
+/**
+ * Runtime environment detection
+ *
+ * This module works out which casting backends are available in the page and
+ * creates the bridge for the one the client should use.
+ */
+
+import { CastKitError } from '../core/errors';
+import { GoogleCastBackendOptions, createGoogleCastBackend } from './google-cast-backend';
+import { PresentationApiBackendOptions, createPresentationApiBackend } from './presentation-backend';
+import { createReactNativeTransport } from './transports';
+import { Bridge, createWebViewBridge, isInOpenGameApp } from './webview-bridge';
+
+/**
+ * Casting backends the client can pick automatically
+ */
+export type CastBackendType = 'opengame' | 'react-native' | 'google-cast' | 'presentation';
+
+/**
+ * Backends in order of preference
+ */
+export const CAST_BACKENDS: readonly CastBackendType[] = [
+  'opengame',
+  'react-native',
+  'google-cast',
+  'presentation',
+];
+
+/**
+ * Result of probing the runtime environment
+ */
+export interface CastEnvironment {
+  /**
+   * Backends available in this environment, best first
+   */
+  available: CastBackendType[];
+
+  /**
+   * Backend the client talks to
+   *
+   * 'custom' when a bridge was passed to the client, null when no backend
+   * was found and the client falls back to window.postMessage.
+   */
+  backend: CastBackendType | 'custom' | null;
+}
+
+/**
+ * Options for creating the bridge of a backend
+ */
+export interface BackendBridgeOptions {
+  /**
+   * Options for the Google Cast backend, which is only available when set
+   */
+  googleCast?: GoogleCastBackendOptions;
+
+  /**
+   * Options for the Presentation API backend
+   */
+  presentation?: PresentationApiBackendOptions;
+
+  /**
+   * Origins allowed to send messages to the OpenGame App bridge
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Shared secret the OpenGame App signs its messages with
+   */
+  secret?: string;
+
+  /**
+   * Whether to enable debug logging
+   */
+  debug?: boolean;
+}
+
+/**
+ * Globals the probe looks for
+ */
+interface ProbedWindow extends Window {
+  ReactNativeWebView?: unknown;
+  PresentationRequest?: unknown;
+  chrome?: unknown;
+  cast?: { framework?: unknown };
+}
+
+/**
+ * Check whether a backend can run in this environment
+ */
+function isBackendAvailable(backend: CastBackendType, options: BackendBridgeOptions): boolean {
+  if (typeof window === 'undefined') return false;
+
+  const probed = window as ProbedWindow;
+
+  switch (backend) {
+    case 'opengame':
+      return isInOpenGameApp();
+
+    case 'react-native':
+      return probed.ReactNativeWebView !== undefined;
+
+    case 'google-cast':
+      // The sender SDK only runs in Chrome, and needs a receiver app to talk to
+      return (
+        options.googleCast !== undefined &&
+        (probed.cast?.framework !== undefined || typeof probed.chrome === 'object')
+      );
+
+    case 'presentation':
+      return typeof probed.PresentationRequest === 'function';
+  }
+}
+
+/**
+ * Find the casting backends available in this environment, best first
+ */
+export function detectBackends(options: BackendBridgeOptions = {}): CastBackendType[] {
+  return CAST_BACKENDS.filter((backend) => isBackendAvailable(backend, options));
+}
+
+/**
+ * Create the bridge for a backend
+ *
+ * Without a backend the bridge falls back to window.postMessage, which is
+ * what hosts that aren't detected by the probe listen on.
+ */
+export function createBackendBridge(backend: CastBackendType | null, options: BackendBridgeOptions = {}): Bridge {
+  const { debug, allowedOrigins, secret } = options;
+
+  switch (backend) {
+    case 'react-native':
+      return createWebViewBridge({ transport: createReactNativeTransport(), allowedOrigins, secret, debug });
+
+    case 'google-cast':
+      if (!options.googleCast) {
+        throw new CastKitError(
+          'INVALID_OPTIONS',
+          'The google-cast backend needs the googleCast.receiverApplicationId option'
+        );
+      }
+
+      return createGoogleCastBackend({ debug, ...options.googleCast });
+
+    case 'presentation':
+      return createPresentationApiBackend({ debug, ...options.presentation });
+
+    default:
+      return createWebViewBridge({ allowedOrigins, secret, debug });
+  }
+}
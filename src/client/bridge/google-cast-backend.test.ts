@@ -0,0 +1,300 @@
+/**
+ * Tests for the Google Cast backend
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GoogleCastBackend } from './google-cast-backend';
+import { DEFAULT_CAST_NAMESPACE } from './protocol';
+import { CastKitClient } from '../core/client';
+
+/**
+ * Minimal stand-in for cast.framework.CastSession
+ */
+class FakeCastSession {
+  sendMessage = vi.fn().mockResolvedValue(undefined);
+
+  messageListeners = new Map<string, (namespace: string, message: string) => void>();
+
+  addMessageListener(namespace: string, listener: (namespace: string, message: string) => void) {
+    this.messageListeners.set(namespace, listener);
+  }
+
+  removeMessageListener(namespace: string) {
+    this.messageListeners.delete(namespace);
+  }
+
+  /**
+   * Deliver a message from the receiver app
+   */
+  receive(namespace: string, message: unknown) {
+    this.messageListeners.get(namespace)?.(namespace, JSON.stringify(message));
+  }
+
+  getSessionId() {
+    return 'cast-session-1';
+  }
+
+  getCastDevice() {
+    return { label: 'receiver-1', friendlyName: 'Living Room TV' };
+  }
+}
+
+/**
+ * Minimal stand-in for cast.framework.CastContext
+ */
+class FakeCastContext {
+  session: FakeCastSession | null = null;
+
+  handlers: Array<(event: { sessionState?: string }) => void> = [];
+
+  setOptions = vi.fn();
+
+  requestSession = vi.fn(async () => {
+    this.session = new FakeCastSession();
+  });
+
+  endCurrentSession = vi.fn(() => {
+    this.session = null;
+    this.fire('SESSION_ENDED');
+  });
+
+  getCurrentSession() {
+    return this.session;
+  }
+
+  addEventListener(_type: string, handler: (event: { sessionState?: string }) => void) {
+    this.handlers.push(handler);
+  }
+
+  removeEventListener(_type: string, handler: (event: { sessionState?: string }) => void) {
+    this.handlers = this.handlers.filter((h) => h !== handler);
+  }
+
+  fire(sessionState: string) {
+    for (const handler of this.handlers) {
+      handler({ sessionState });
+    }
+  }
+}
+
+describe('Google Cast Backend', () => {
+  let context: FakeCastContext;
+  let backend: GoogleCastBackend;
+
+  const readyMessage = {
+    type: 'CAST_READY' as const,
+    payload: {
+      gameId: 'test-game',
+      roomCode: 'ABC123',
+      broadcastUrl: 'https://example.com/tv',
+      protocolVersion: 1,
+      features: [],
+    },
+    requestId: 'ready-1',
+  };
+
+  // The globals the Cast sender SDK installs
+  const castWindow = window as unknown as { cast?: unknown; chrome?: unknown };
+
+  beforeEach(() => {
+    context = new FakeCastContext();
+
+    castWindow.cast = {
+      framework: {
+        CastContext: { getInstance: () => context },
+        CastContextEventType: { SESSION_STATE_CHANGED: 'sessionstatechanged' },
+        SessionState: {
+          SESSION_STARTED: 'SESSION_STARTED',
+          SESSION_RESUMED: 'SESSION_RESUMED',
+          SESSION_ENDED: 'SESSION_ENDED',
+        },
+      },
+    };
+    castWindow.chrome = { cast: { AutoJoinPolicy: { ORIGIN_SCOPED: 'origin_scoped' } } };
+
+    backend = new GoogleCastBackend({ receiverApplicationId: 'APP123' });
+  });
+
+  afterEach(() => {
+    backend.dispose();
+    castWindow.cast = undefined;
+    castWindow.chrome = undefined;
+  });
+
+  const startSession = () =>
+    backend.sendMessageWithResponse({
+      type: 'CAST_START_SESSION',
+      payload: { deviceId: 'any', initialState: { score: 0 } },
+      requestId: 'start-1',
+    });
+
+  it('initializes the Cast context on CAST_READY', async () => {
+    const response = await backend.sendMessageWithResponse(readyMessage);
+
+    expect(context.setOptions).toHaveBeenCalledWith({
+      receiverApplicationId: 'APP123',
+      autoJoinPolicy: 'origin_scoped',
+    });
+    expect(response.payload).toMatchObject({
+      available: true,
+      protocolVersion: 1,
+      features: ['session', 'stateUpdate', 'statePatch'],
+    });
+  });
+
+  it('reports Cast as unavailable without the SDK', async () => {
+    castWindow.cast = undefined;
+    backend = new GoogleCastBackend({ receiverApplicationId: 'APP123', loadSdk: false });
+
+    const response = await backend.sendMessageWithResponse(readyMessage);
+
+    expect(response.payload.available).toBe(false);
+  });
+
+  it('starts a session and connects the receiver app', async () => {
+    await backend.sendMessageWithResponse(readyMessage);
+    const response = await startSession();
+
+    expect(response.payload).toMatchObject({
+      status: 'connected',
+      deviceId: 'receiver-1',
+      deviceName: 'Living Room TV',
+      sessionId: 'cast-session-1',
+    });
+    expect(context.session?.sendMessage).toHaveBeenCalledWith(DEFAULT_CAST_NAMESPACE, {
+      type: 'CAST_CONNECT',
+      initialState: { score: 0 },
+      gameId: 'test-game',
+      roomCode: 'ABC123',
+      broadcastUrl: 'https://example.com/tv',
+    });
+  });
+
+  it('rejects with SESSION_CANCELLED when the Cast dialog is dismissed', async () => {
+    await backend.sendMessageWithResponse(readyMessage);
+    context.requestSession.mockRejectedValueOnce('cancel');
+
+    await expect(startSession()).rejects.toMatchObject({ code: 'SESSION_CANCELLED' });
+  });
+
+  it('forwards state updates over the namespace', async () => {
+    await backend.sendMessageWithResponse(readyMessage);
+    await startSession();
+
+    const response = await backend.sendMessageWithResponse({
+      type: 'CAST_STATE_UPDATE',
+      payload: { state: { score: 10 }, timestamp: 123 },
+      requestId: 'update-1',
+    });
+
+    expect(response.payload.status).toBe('delivered');
+    expect(context.session?.sendMessage).toHaveBeenLastCalledWith(DEFAULT_CAST_NAMESPACE, {
+      type: 'CAST_STATE_UPDATE',
+      state: { score: 10 },
+      timestamp: 123,
+    });
+  });
+
+  it('sends a single snapshot when the receiver app asks for one while a patch is pending', async () => {
+    const client = new CastKitClient({ bridge: backend, stateSync: 'patch' });
+
+    await client.signalReady({ gameId: 'test-game' });
+    await client.startCasting('any', { initialState: { score: 0 } });
+    const session = context.session as FakeCastSession;
+
+    const update = client.sendStateUpdate({ score: 5 });
+    session.receive(DEFAULT_CAST_NAMESPACE, { type: 'CAST_STATE_RESYNC', payload: { stateVersion: 0 } });
+    await update;
+
+    const snapshots = () =>
+      session.sendMessage.mock.calls.filter(([, message]) => message.type === 'CAST_STATE_UPDATE' && message.replace);
+
+    await vi.waitFor(() => {
+      expect(snapshots()).toHaveLength(1);
+    });
+    await client.sendStateUpdate({ score: 6 });
+
+    expect(snapshots()).toHaveLength(1);
+    expect(session.sendMessage).toHaveBeenLastCalledWith(
+      DEFAULT_CAST_NAMESPACE,
+      expect.objectContaining({ type: 'CAST_STATE_PATCH', baseVersion: 2, version: 3 })
+    );
+
+    await client.stopCasting();
+  });
+
+  it('sends a snapshot when the receiver app asks for one', async () => {
+    const client = new CastKitClient({ bridge: backend, stateSync: 'patch' });
+
+    await client.signalReady({ gameId: 'test-game' });
+    await client.startCasting('any', { initialState: { score: 0 } });
+    await client.sendStateUpdate({ score: 5 });
+    const session = context.session as FakeCastSession;
+
+    session.receive(DEFAULT_CAST_NAMESPACE, { type: 'CAST_STATE_RESYNC', payload: { stateVersion: 0 } });
+
+    await vi.waitFor(() => {
+      expect(session.sendMessage).toHaveBeenLastCalledWith(
+        DEFAULT_CAST_NAMESPACE,
+        expect.objectContaining({ type: 'CAST_STATE_UPDATE', state: { score: 5 }, version: 2, replace: true })
+      );
+    });
+
+    await client.stopCasting();
+  });
+
+  it('maps sessions and state updates onto the client state', async () => {
+    const client = new CastKitClient({ bridge: backend });
+
+    await client.signalReady({ gameId: 'test-game', roomCode: 'ABC123' });
+    await client.startCasting('any', { initialState: { score: 0 } });
+    await client.sendStateUpdate({ score: 5 });
+
+    expect(client.getState()).toMatchObject({
+      isAvailable: true,
+      isCasting: true,
+      deviceName: 'Living Room TV',
+      sessionId: 'cast-session-1',
+      features: ['session', 'stateUpdate', 'statePatch'],
+    });
+
+    await client.stopCasting();
+
+    expect(client.getState().isCasting).toBe(false);
+    expect(context.endCurrentSession).toHaveBeenCalledWith(true);
+  });
+
+  it('reports sessions ended from the Cast dialog', async () => {
+    const client = new CastKitClient({ bridge: backend });
+
+    await client.signalReady({ gameId: 'test-game' });
+    await client.startCasting('any');
+
+    context.session = null;
+    context.fire('SESSION_ENDED');
+
+    expect(client.getState()).toMatchObject({ isCasting: false, sessionId: null });
+  });
+
+  it('passes messages from the receiver app on to the client', async () => {
+    const client = new CastKitClient({ bridge: backend });
+    const handler = vi.fn();
+    client.onReceiverMessage(handler);
+
+    await client.signalReady({ gameId: 'test-game' });
+    await client.startCasting('any');
+    const session = context.session as FakeCastSession;
+
+    session.receive(DEFAULT_CAST_NAMESPACE, {
+      type: 'CAST_RECEIVER_MESSAGE',
+      payload: { type: 'countdownExpired', payload: { round: 2 }, timestamp: 5 },
+    });
+    session.receive(DEFAULT_CAST_NAMESPACE, { type: 'CAST_RECEIVER_MESSAGE', payload: { type: 'missingPayload' } });
+
+    expect(handler.mock.calls).toEqual([[{ type: 'countdownExpired', payload: { round: 2 }, timestamp: 5 }]]);
+
+    await client.stopCasting();
+
+    expect(session.messageListeners.size).toBe(0);
+  });
+});
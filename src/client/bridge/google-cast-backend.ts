@@ -0,0 +1,420 @@
+/**
+ * Google Cast backend
+ *
+ * This module provides a backend that drives the Google Cast Web Sender SDK
+ * (`cast.framework`) directly, for games running in Chrome on desktop or
+ * Android without the OpenGame App. Device selection happens in the Cast
+ * dialog, and state updates are sent to the receiver app over a custom
+ * message namespace.
+ */
+
+import {
+  BaseMessage,
+  CastReadyMessage,
+  CastRequestMessage,
+  CastStartSessionMessage,
+  CastStatePatchMessage,
+  CastStateUpdateMessage,
+  DEFAULT_CAST_NAMESPACE,
+  PROTOCOL_VERSION,
+  ReceiverMessage,
+  readReceiverReply,
+  toReceiverMessage,
+} from './protocol';
+import { CastKitError } from '../core/errors';
+import { HostBackend, HostBackendOptions } from './host-backend';
+
+/**
+ * URL of the Cast Web Sender SDK
+ */
+const CAST_SENDER_SDK_URL = 'https://www.gstatic.com/cv/js/sender/v1/cast_sender.js?loadCastFramework=1';
+
+/**
+ * The parts of chrome.cast.Receiver used by the backend
+ */
+interface CastReceiverDevice {
+  label: string;
+  friendlyName: string;
+}
+
+/**
+ * The parts of cast.framework.CastSession used by the backend
+ */
+interface CastFrameworkSession {
+  getSessionId(): string;
+  getCastDevice(): CastReceiverDevice;
+  sendMessage(namespace: string, data: unknown): Promise<unknown>;
+  addMessageListener(namespace: string, listener: (namespace: string, message: string) => void): void;
+  removeMessageListener(namespace: string, listener: (namespace: string, message: string) => void): void;
+}
+
+/**
+ * The parts of cast.framework.CastContext used by the backend
+ */
+interface CastFrameworkContext {
+  setOptions(options: { receiverApplicationId: string; autoJoinPolicy?: string }): void;
+  requestSession(): Promise<unknown>;
+  getCurrentSession(): CastFrameworkSession | null;
+  endCurrentSession(stopCasting: boolean): void;
+  addEventListener(type: string, handler: (event: { sessionState?: string }) => void): void;
+  removeEventListener(type: string, handler: (event: { sessionState?: string }) => void): void;
+}
+
+/**
+ * Globals defined by the Cast Web Sender SDK
+ */
+interface CastWindow extends Window {
+  cast?: {
+    framework?: {
+      CastContext: { getInstance(): CastFrameworkContext };
+      CastContextEventType: { SESSION_STATE_CHANGED: string };
+      SessionState: { SESSION_STARTED: string; SESSION_RESUMED: string; SESSION_ENDED: string };
+    };
+  };
+  chrome?: {
+    cast?: {
+      AutoJoinPolicy?: { ORIGIN_SCOPED: string };
+    };
+  };
+  __onGCastApiAvailable?: (isAvailable: boolean) => void;
+}
+
+/**
+ * Options for creating a Google Cast backend
+ */
+export interface GoogleCastBackendOptions extends HostBackendOptions {
+  /**
+   * Application ID of the receiver app registered in the Cast console
+   */
+  receiverApplicationId: string;
+
+  /**
+   * Namespace for messages between the game and the receiver app
+   * @default 'urn:x-cast:com.opengame.castkit'
+   */
+  namespace?: string;
+
+  /**
+   * Whether to load the Cast SDK when it isn't on the page yet
+   * @default true
+   */
+  loadSdk?: boolean;
+}
+
+/**
+ * Implementation of Bridge interface on top of the Google Cast Web Sender SDK
+ *
+ * The receiver app gets the same messages as a receiver in the OpenGame App:
+ * `CAST_CONNECT` with the initial state and game parameters, `CAST_STATE_UPDATE`
+ * or `CAST_STATE_PATCH` with each state update and `CAST_DISCONNECT` when the
+ * game stops casting.
+ */
+export class GoogleCastBackend extends HostBackend {
+  private options: GoogleCastBackendOptions;
+
+  private context: CastFrameworkContext | null = null;
+
+  private framework: Promise<boolean> | null = null;
+
+  private session: CastFrameworkSession | null = null;
+
+  private game: CastReadyMessage['payload'] | null = null;
+
+  constructor(options: GoogleCastBackendOptions) {
+    // The Cast dialog waits for the user to pick a device
+    super(options, 60000);
+    this.options = options;
+  }
+
+  /**
+   * Stop listening to the Cast SDK and reject pending requests
+   */
+  public dispose(): void {
+    const castFramework = (window as CastWindow).cast?.framework;
+
+    if (this.context && castFramework) {
+      this.context.removeEventListener(
+        castFramework.CastContextEventType.SESSION_STATE_CHANGED,
+        this.handleSessionStateChanged
+      );
+    }
+
+    this.context = null;
+    this.setSession(null);
+
+    super.dispose();
+  }
+
+  /**
+   * Answer a request from the game
+   */
+  protected async handleRequest(message: CastRequestMessage): Promise<BaseMessage> {
+    switch (message.type) {
+      case 'CAST_READY':
+        return this.initialize(message);
+
+      case 'CAST_START_SESSION':
+        return this.startSession(message);
+
+      case 'CAST_END_SESSION':
+        return this.endSession();
+
+      case 'CAST_STATE_UPDATE':
+      case 'CAST_STATE_PATCH':
+        return this.updateState(message);
+
+      default:
+        throw new CastKitError(
+          'UNSUPPORTED_FEATURE',
+          `${message.type} is not supported by the Google Cast backend`
+        );
+    }
+  }
+
+  /**
+   * Set up the Cast context and report availability
+   */
+  private async initialize(message: CastReadyMessage): Promise<BaseMessage> {
+    this.game = message.payload;
+
+    const available = await this.loadFramework();
+
+    if (available && !this.context) {
+      const hostWindow = window as CastWindow;
+      const castFramework = hostWindow.cast?.framework;
+
+      if (castFramework) {
+        this.context = castFramework.CastContext.getInstance();
+        this.context.setOptions({
+          receiverApplicationId: this.options.receiverApplicationId,
+          autoJoinPolicy: hostWindow.chrome?.cast?.AutoJoinPolicy?.ORIGIN_SCOPED,
+        });
+        this.context.addEventListener(
+          castFramework.CastContextEventType.SESSION_STATE_CHANGED,
+          this.handleSessionStateChanged
+        );
+      }
+    }
+
+    // Devices are picked in the Cast dialog, so scanning isn't supported
+    return {
+      type: 'CAST_INITIALIZED',
+      payload: {
+        available: this.context !== null,
+        devices: [],
+        protocolVersion: PROTOCOL_VERSION,
+        features: ['session', 'stateUpdate', 'statePatch'],
+      },
+    };
+  }
+
+  /**
+   * Open the Cast dialog and connect the receiver app
+   */
+  private async startSession(message: CastStartSessionMessage): Promise<BaseMessage> {
+    const context = this.requireContext();
+
+    try {
+      await context.requestSession();
+    } catch (error) {
+      // requestSession rejects with a chrome.cast.ErrorCode
+      throw new CastKitError(
+        error === 'cancel' ? 'SESSION_CANCELLED' : 'SESSION_ERROR',
+        `Failed to start a Cast session: ${String(error)}`,
+        { reason: error }
+      );
+    }
+
+    const session = context.getCurrentSession();
+
+    if (!session) {
+      throw new CastKitError('SESSION_ERROR', 'Cast session was not started');
+    }
+
+    this.setSession(session);
+
+    await this.send(session, {
+      type: 'CAST_CONNECT',
+      initialState: message.payload.initialState || {},
+      gameId: this.game?.gameId,
+      roomCode: this.game?.roomCode,
+      broadcastUrl: this.game?.broadcastUrl,
+      senderName: message.payload.senderName,
+    });
+
+    return this.sessionUpdate('connected', session);
+  }
+
+  /**
+   * Disconnect the receiver app and end the Cast session
+   */
+  private async endSession(): Promise<BaseMessage> {
+    const session = this.session;
+    const context = this.requireContext();
+
+    if (!session) {
+      throw new CastKitError('NO_SESSION', 'No active Cast session');
+    }
+
+    // Forget the session first so its SESSION_ENDED event isn't reported twice
+    this.setSession(null);
+
+    await this.send(session, { type: 'CAST_DISCONNECT' }).catch((error) => {
+      this.log('Failed to notify the receiver', error);
+    });
+    context.endCurrentSession(true);
+
+    return this.sessionUpdate('terminated', session);
+  }
+
+  /**
+   * Forward a state update or patch to the receiver app
+   */
+  private async updateState(message: CastStateUpdateMessage | CastStatePatchMessage): Promise<BaseMessage> {
+    if (!this.session) {
+      throw new CastKitError('NO_SESSION', 'No active Cast session');
+    }
+
+    await this.send(this.session, toReceiverMessage(message));
+
+    return {
+      type: 'CAST_STATE_CONFIRMED',
+      payload: {
+        status: 'delivered',
+        timestamp: Date.now(),
+        seq: message.payload.seq,
+      },
+    };
+  }
+
+  /**
+   * Report sessions started or ended outside of the game
+   */
+  private handleSessionStateChanged = (event: { sessionState?: string }) => {
+    const castFramework = (window as CastWindow).cast?.framework;
+    if (!castFramework || !this.context) return;
+
+    const { SessionState } = castFramework;
+
+    if (event.sessionState === SessionState.SESSION_RESUMED && !this.session) {
+      const session = this.context.getCurrentSession();
+
+      if (session) {
+        this.log('Session resumed', session.getSessionId());
+        this.setSession(session);
+        this.emit(this.sessionUpdate('connected', session));
+      }
+    } else if (event.sessionState === SessionState.SESSION_ENDED && this.session) {
+      this.log('Session ended', this.session.getSessionId());
+      const session = this.session;
+      this.setSession(null);
+      this.emit(this.sessionUpdate('terminated', session));
+    }
+  };
+
+  /**
+   * Switch to another session, listening to the receiver app's messages on it
+   */
+  private setSession(session: CastFrameworkSession | null): void {
+    const namespace = this.options.namespace ?? DEFAULT_CAST_NAMESPACE;
+
+    this.session?.removeMessageListener(namespace, this.handleReceiverMessage);
+    this.session = session;
+    this.session?.addMessageListener(namespace, this.handleReceiverMessage);
+  }
+
+  /**
+   * Pass messages sent by the receiver app on to the game
+   */
+  private handleReceiverMessage = (_namespace: string, message: string) => {
+    const data = readReceiverReply(message);
+
+    if (data) {
+      this.emit(data);
+    } else {
+      this.log('Ignoring message from the receiver', message);
+    }
+  };
+
+  /**
+   * Make sure the Cast SDK is loaded
+   */
+  private loadFramework(): Promise<boolean> {
+    if (!this.framework) {
+      this.framework = new Promise((resolve) => {
+        const hostWindow = window as CastWindow;
+
+        if (hostWindow.cast?.framework) {
+          resolve(true);
+          return;
+        }
+
+        if (this.options.loadSdk === false || typeof document === 'undefined') {
+          resolve(false);
+          return;
+        }
+
+        hostWindow.__onGCastApiAvailable = (isAvailable) => {
+          resolve(isAvailable && !!hostWindow.cast?.framework);
+        };
+
+        const script = document.createElement('script');
+        script.src = CAST_SENDER_SDK_URL;
+        script.async = true;
+        script.onerror = () => resolve(false);
+        document.head.appendChild(script);
+      });
+    }
+
+    return this.framework;
+  }
+
+  /**
+   * Get the Cast context or throw if the SDK isn't available
+   */
+  private requireContext(): CastFrameworkContext {
+    if (!this.context) {
+      throw new CastKitError('CAST_UNAVAILABLE', 'Google Cast is not available');
+    }
+
+    return this.context;
+  }
+
+  /**
+   * Send a message to the receiver app
+   */
+  private async send(session: CastFrameworkSession, data: ReceiverMessage): Promise<void> {
+    try {
+      await session.sendMessage(this.options.namespace ?? DEFAULT_CAST_NAMESPACE, data);
+    } catch (error) {
+      throw new CastKitError('CAST_MESSAGE_FAILED', `Failed to send ${data.type} to the receiver`, {
+        reason: error,
+      });
+    }
+  }
+
+  /**
+   * Build a CAST_SESSION_UPDATED message for a session
+   */
+  private sessionUpdate(status: 'connected' | 'terminated', session: CastFrameworkSession): BaseMessage {
+    const device = session.getCastDevice();
+
+    return {
+      type: 'CAST_SESSION_UPDATED',
+      payload: {
+        status,
+        deviceId: device.label,
+        deviceName: device.friendlyName,
+        sessionId: session.getSessionId(),
+        error: null,
+      },
+    };
+  }
+}
+
+/**
+ * Create a Google Cast backend
+ */
+export function createGoogleCastBackend(options: GoogleCastBackendOptions): GoogleCastBackend {
+  return new GoogleCastBackend(options);
+}
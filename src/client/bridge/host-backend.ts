@@ -0,0 +1,169 @@
+/**
+ * In-page host backends
+ *
+ * This module provides the base class for backends that play the host side of
+ * the protocol inside the page itself, on top of a browser casting API, for
+ * games running without a native host shell.
+ */
+
+import {
+  BaseMessage,
+  CastRequestMessage,
+  CastResponseMessage,
+  MESSAGE_SOURCE_NATIVE,
+  isRequestType,
+  validateMessage,
+} from './protocol';
+import { CastKitError } from '../core/errors';
+import { BridgeTransport } from './transports';
+import { Bridge, WebViewBridge } from './webview-bridge';
+
+/**
+ * Options shared by all in-page host backends
+ */
+export interface HostBackendOptions {
+  /**
+   * Timeout for sendMessageWithResponse in milliseconds
+   */
+  timeout?: number;
+
+  /**
+   * Whether to enable debug logging
+   * @default false
+   */
+  debug?: boolean;
+}
+
+/**
+ * Base class for backends that answer requests inside the page
+ *
+ * Request correlation is handled by a WebViewBridge running on top of an
+ * in-page transport, so backends only have to turn each request into its
+ * response message. Errors thrown while handling a request are sent back as a
+ * correlated CAST_ERROR, which rejects the request with a CastKitError.
+ */
+export abstract class HostBackend implements Bridge {
+  private bridge: WebViewBridge;
+
+  private handler: ((event: MessageEvent) => void) | null = null;
+
+  protected readonly debug: boolean;
+
+  constructor(options: HostBackendOptions, defaultTimeout: number) {
+    this.debug = options.debug ?? false;
+
+    this.bridge = new WebViewBridge({
+      transport: this.createTransport(),
+      timeout: options.timeout ?? defaultTimeout,
+      debug: this.debug,
+    });
+  }
+
+  /**
+   * Send a message through the bridge
+   */
+  public sendMessage(message: BaseMessage): void {
+    this.bridge.sendMessage(message);
+  }
+
+  /**
+   * Send a request and wait for its validated response
+   */
+  public sendMessageWithResponse<M extends CastRequestMessage>(
+    message: M,
+    timeout?: number
+  ): Promise<CastResponseMessage<M['type']>> {
+    return this.bridge.sendMessageWithResponse(message, timeout);
+  }
+
+  /**
+   * Add an event listener for incoming messages
+   */
+  public addEventListener(type: string, listener: EventListener): void {
+    this.bridge.addEventListener(type, listener);
+  }
+
+  /**
+   * Remove an event listener
+   */
+  public removeEventListener(type: string, listener: EventListener): void {
+    this.bridge.removeEventListener(type, listener);
+  }
+
+  /**
+   * Stop answering requests and reject the pending ones
+   */
+  public dispose(): void {
+    this.bridge.dispose();
+  }
+
+  /**
+   * Answer a request from the game with its response message
+   */
+  protected abstract handleRequest(message: CastRequestMessage): Promise<BaseMessage>;
+
+  /**
+   * Deliver a message from the host to the game
+   */
+  protected emit(message: BaseMessage): void {
+    this.handler?.(new MessageEvent('message', { data: { ...message, source: MESSAGE_SOURCE_NATIVE } }));
+  }
+
+  /**
+   * Log a message if debug is enabled
+   */
+  protected log(message: string, data?: unknown): void {
+    if (this.debug) {
+      console.log(`CastKit [${this.constructor.name}]: ${message}`, data);
+    }
+  }
+
+  /**
+   * Create the transport that hands messages to the backend
+   */
+  private createTransport(): BridgeTransport {
+    return {
+      send: (message) => {
+        void this.receive(message);
+      },
+      listen: (handler) => {
+        this.handler = handler;
+
+        return () => {
+          this.handler = null;
+        };
+      },
+    };
+  }
+
+  /**
+   * Handle a message sent by the game
+   */
+  private async receive(message: BaseMessage): Promise<void> {
+    if (!validateMessage(message) || !isRequestType(message.type)) {
+      this.log('Ignoring message', message);
+      return;
+    }
+
+    try {
+      const response = await this.handleRequest(message as CastRequestMessage);
+      this.emit({ ...response, requestId: message.requestId });
+    } catch (error) {
+      const castError = error instanceof CastKitError
+        ? error
+        : new CastKitError('BACKEND_ERROR', error instanceof Error ? error.message : String(error));
+
+      this.log('Request failed', castError);
+
+      this.emit({
+        type: 'CAST_ERROR',
+        payload: {
+          code: castError.code,
+          message: castError.message,
+          details: castError.details,
+        },
+        requestId: message.requestId,
+      });
+    }
+  }
+}
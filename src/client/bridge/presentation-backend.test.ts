@@ -0,0 +1,203 @@
+/**
+ * Tests for the Presentation API backend
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PresentationApiBackend } from './presentation-backend';
+import { CastKitClient } from '../core/client';
+
+/**
+ * Minimal stand-in for PresentationConnection
+ */
+class FakePresentationConnection extends EventTarget {
+  id = 'presentation-1';
+
+  state: 'connecting' | 'connected' | 'closed' | 'terminated' = 'connecting';
+
+  sent: unknown[] = [];
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  terminate = vi.fn(() => {
+    this.state = 'terminated';
+    this.dispatchEvent(new Event('terminate'));
+  });
+
+  connect() {
+    this.state = 'connected';
+    this.dispatchEvent(new Event('connect'));
+  }
+}
+
+/**
+ * Minimal stand-in for PresentationRequest
+ */
+class FakePresentationRequest {
+  static instances: FakePresentationRequest[] = [];
+
+  static available = true;
+
+  connection = new FakePresentationConnection();
+
+  constructor(public urls: string[]) {
+    FakePresentationRequest.instances.push(this);
+  }
+
+  start = vi.fn(async () => {
+    // Connections finish connecting after start resolves
+    setTimeout(() => this.connection.connect(), 0);
+    return this.connection;
+  });
+
+  async getAvailability() {
+    return { value: FakePresentationRequest.available };
+  }
+}
+
+describe('Presentation API Backend', () => {
+  let backend: PresentationApiBackend;
+
+  const readyMessage = {
+    type: 'CAST_READY' as const,
+    payload: {
+      gameId: 'test-game',
+      broadcastUrl: 'https://example.com/tv',
+      protocolVersion: 1,
+      features: [],
+    },
+    requestId: 'ready-1',
+  };
+
+  beforeEach(() => {
+    FakePresentationRequest.instances = [];
+    FakePresentationRequest.available = true;
+    backend = new PresentationApiBackend({ PresentationRequest: FakePresentationRequest });
+  });
+
+  afterEach(() => {
+    backend.dispose();
+  });
+
+  it('creates a presentation request for the broadcast URL', async () => {
+    const response = await backend.sendMessageWithResponse(readyMessage);
+
+    expect(FakePresentationRequest.instances[0].urls).toEqual(['https://example.com/tv']);
+    expect(response.payload).toMatchObject({ available: true, features: ['session', 'stateUpdate', 'statePatch'] });
+  });
+
+  it('is unavailable without a broadcast URL', async () => {
+    const response = await backend.sendMessageWithResponse({
+      ...readyMessage,
+      payload: { ...readyMessage.payload, broadcastUrl: undefined },
+    });
+
+    expect(response.payload.available).toBe(false);
+    expect(FakePresentationRequest.instances).toHaveLength(0);
+  });
+
+  it('reports the availability of presentation displays', async () => {
+    FakePresentationRequest.available = false;
+
+    const response = await backend.sendMessageWithResponse(readyMessage);
+
+    expect(response.payload.available).toBe(false);
+  });
+
+  it('rejects with SESSION_CANCELLED when the dialog is dismissed', async () => {
+    await backend.sendMessageWithResponse(readyMessage);
+    const request = FakePresentationRequest.instances[0];
+    request.start.mockRejectedValueOnce(new DOMException('Dismissed', 'NotAllowedError'));
+
+    await expect(
+      backend.sendMessageWithResponse({
+        type: 'CAST_START_SESSION',
+        payload: { deviceId: 'any' },
+        requestId: 'start-1',
+      })
+    ).rejects.toMatchObject({ code: 'SESSION_CANCELLED' });
+  });
+
+  it('routes the session and state updates through the connection', async () => {
+    const client = new CastKitClient({ bridge: backend });
+
+    await client.signalReady({ gameId: 'test-game', broadcastUrl: 'https://example.com/tv' });
+    await client.startCasting('any', { initialState: { score: 0 } });
+    await client.sendStateUpdate({ score: 7 });
+
+    const { connection } = FakePresentationRequest.instances[0];
+
+    expect(client.getState()).toMatchObject({ isCasting: true, sessionId: 'presentation-1' });
+    expect(connection.sent).toEqual([
+      {
+        type: 'CAST_CONNECT',
+        initialState: { score: 0 },
+        gameId: 'test-game',
+        broadcastUrl: 'https://example.com/tv',
+      },
+      { type: 'CAST_STATE_UPDATE', state: { score: 7 }, timestamp: expect.any(Number), seq: 1 },
+    ]);
+
+    await client.stopCasting();
+
+    expect(connection.sent[2]).toEqual({ type: 'CAST_DISCONNECT' });
+    expect(connection.terminate).toHaveBeenCalled();
+    expect(client.getState().isCasting).toBe(false);
+  });
+
+  it('resyncs the receiver page when it asks for a snapshot', async () => {
+    const client = new CastKitClient({ bridge: backend, stateSync: 'patch' });
+
+    await client.signalReady({ gameId: 'test-game', broadcastUrl: 'https://example.com/tv' });
+    await client.startCasting('any', { initialState: { score: 0 } });
+
+    const { connection } = FakePresentationRequest.instances[0];
+    const resync = { type: 'CAST_STATE_RESYNC', payload: { stateVersion: 0 } };
+    connection.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(resync) }));
+
+    await vi.waitFor(() => {
+      expect(connection.sent).toContainEqual(
+        expect.objectContaining({ type: 'CAST_STATE_UPDATE', state: { score: 0 }, version: 1, replace: true })
+      );
+    });
+
+    // Patches go through again once the receiver has the snapshot
+    await client.sendStateUpdate({ score: 7 });
+
+    expect(connection.sent.at(-1)).toMatchObject({ type: 'CAST_STATE_PATCH', baseVersion: 1, version: 2 });
+
+    await client.stopCasting();
+  });
+
+  it('reports presentations closed by the browser', async () => {
+    const client = new CastKitClient({ bridge: backend });
+
+    await client.signalReady({ gameId: 'test-game', broadcastUrl: 'https://example.com/tv' });
+    await client.startCasting('any');
+
+    FakePresentationRequest.instances[0].connection.dispatchEvent(new Event('close'));
+
+    expect(client.getState()).toMatchObject({ isCasting: false, sessionId: null });
+  });
+
+  it('passes messages from the receiver page on to the client', async () => {
+    const client = new CastKitClient({ bridge: backend });
+    const handler = vi.fn();
+    client.onReceiverMessage(handler);
+
+    await client.signalReady({ gameId: 'test-game', broadcastUrl: 'https://example.com/tv' });
+    await client.startCasting('any');
+
+    const { connection } = FakePresentationRequest.instances[0];
+    const message = { type: 'CAST_RECEIVER_MESSAGE', payload: { type: 'videoEnded', payload: { clip: 'intro' } } };
+    connection.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message) }));
+
+    expect(handler).toHaveBeenCalledWith({ type: 'videoEnded', payload: { clip: 'intro' } });
+
+    await client.stopCasting();
+    connection.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message) }));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
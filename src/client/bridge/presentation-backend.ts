@@ -0,0 +1,343 @@
+/**
+ * Presentation API backend
+ *
+ * This module provides a backend that uses the W3C Presentation API to open
+ * the game's broadcast URL on a second screen, such as a Chromecast or a
+ * Miracast display, straight from a desktop browser. State updates are sent
+ * over the resulting PresentationConnection.
+ */
+
+import {
+  BaseMessage,
+  CastReadyMessage,
+  CastRequestMessage,
+  CastStartSessionMessage,
+  CastStatePatchMessage,
+  CastStateUpdateMessage,
+  PROTOCOL_VERSION,
+  ReceiverMessage,
+  readReceiverReply,
+  toReceiverMessage,
+} from './protocol';
+import { CastKitError } from '../core/errors';
+import { HostBackend, HostBackendOptions } from './host-backend';
+
+/**
+ * The parts of PresentationConnection used by the backend
+ */
+interface PresentationConnectionLike extends EventTarget {
+  readonly id: string;
+  readonly state: 'connecting' | 'connected' | 'closed' | 'terminated';
+  send(data: string): void;
+  terminate(): void;
+}
+
+/**
+ * The parts of PresentationAvailability used by the backend
+ */
+interface PresentationAvailabilityLike {
+  readonly value: boolean;
+}
+
+/**
+ * The parts of PresentationRequest used by the backend
+ */
+interface PresentationRequestLike {
+  start(): Promise<PresentationConnectionLike>;
+  getAvailability(): Promise<PresentationAvailabilityLike>;
+}
+
+/**
+ * PresentationRequest constructor
+ */
+type PresentationRequestConstructor = new (_urls: string[]) => PresentationRequestLike;
+
+/**
+ * Options for creating a Presentation API backend
+ */
+export interface PresentationApiBackendOptions extends HostBackendOptions {
+  /**
+   * Name reported for the presentation display
+   * @default 'Presentation display'
+   */
+  displayName?: string;
+
+  /**
+   * PresentationRequest implementation to use
+   * @default globalThis.PresentationRequest
+   */
+  PresentationRequest?: PresentationRequestConstructor;
+}
+
+/**
+ * Implementation of Bridge interface on top of the Presentation API
+ *
+ * The receiver page gets the same messages as a receiver in the OpenGame App,
+ * as JSON strings on its `navigator.presentation.receiver` connection.
+ */
+export class PresentationApiBackend extends HostBackend {
+  private options: PresentationApiBackendOptions;
+
+  private request: PresentationRequestLike | null = null;
+
+  private connection: PresentationConnectionLike | null = null;
+
+  private game: CastReadyMessage['payload'] | null = null;
+
+  constructor(options: PresentationApiBackendOptions = {}) {
+    // The presentation dialog waits for the user to pick a display
+    super(options, 60000);
+    this.options = options;
+  }
+
+  /**
+   * Stop listening to the connection and reject pending requests
+   */
+  public dispose(): void {
+    this.connection?.removeEventListener('close', this.handleConnectionClosed);
+    this.connection?.removeEventListener('terminate', this.handleConnectionClosed);
+    this.connection = null;
+    this.request = null;
+
+    super.dispose();
+  }
+
+  /**
+   * Answer a request from the game
+   */
+  protected async handleRequest(message: CastRequestMessage): Promise<BaseMessage> {
+    switch (message.type) {
+      case 'CAST_READY':
+        return this.initialize(message);
+
+      case 'CAST_START_SESSION':
+        return this.startSession(message);
+
+      case 'CAST_END_SESSION':
+        return this.endSession();
+
+      case 'CAST_STATE_UPDATE':
+      case 'CAST_STATE_PATCH':
+        return this.updateState(message);
+
+      default:
+        throw new CastKitError(
+          'UNSUPPORTED_FEATURE',
+          `${message.type} is not supported by the Presentation API backend`
+        );
+    }
+  }
+
+  /**
+   * Create the presentation request for the broadcast URL
+   */
+  private async initialize(message: CastReadyMessage): Promise<BaseMessage> {
+    this.game = message.payload;
+
+    const PresentationRequestImpl = this.options.PresentationRequest
+      ?? (globalThis as { PresentationRequest?: PresentationRequestConstructor }).PresentationRequest;
+
+    let available = false;
+
+    if (PresentationRequestImpl && message.payload.broadcastUrl) {
+      this.request = new PresentationRequestImpl([message.payload.broadcastUrl]);
+
+      try {
+        available = (await this.request.getAvailability()).value;
+      } catch (_error) {
+        // Some browsers can't monitor availability but can still start presentations
+        available = true;
+      }
+    }
+
+    // Displays are picked in the browser's dialog, so scanning isn't supported
+    return {
+      type: 'CAST_INITIALIZED',
+      payload: {
+        available,
+        devices: [],
+        protocolVersion: PROTOCOL_VERSION,
+        features: ['session', 'stateUpdate', 'statePatch'],
+      },
+    };
+  }
+
+  /**
+   * Open the presentation dialog and connect the receiver page
+   */
+  private async startSession(message: CastStartSessionMessage): Promise<BaseMessage> {
+    if (!this.request) {
+      throw new CastKitError(
+        'CAST_UNAVAILABLE',
+        'The Presentation API is not available or no broadcastUrl was given to signalReady'
+      );
+    }
+
+    let connection: PresentationConnectionLike;
+
+    try {
+      connection = await this.request.start();
+    } catch (error) {
+      // start rejects with a NotAllowedError when the dialog is dismissed
+      const name = (error as { name?: string } | null)?.name ?? String(error);
+      throw new CastKitError(
+        name === 'NotAllowedError' ? 'SESSION_CANCELLED' : 'SESSION_ERROR',
+        `Failed to start a presentation: ${name}`,
+        { reason: name }
+      );
+    }
+
+    await this.waitUntilConnected(connection);
+
+    this.connection = connection;
+    connection.addEventListener('close', this.handleConnectionClosed);
+    connection.addEventListener('terminate', this.handleConnectionClosed);
+    connection.addEventListener('message', this.handleReceiverMessage);
+
+    this.send(connection, {
+      type: 'CAST_CONNECT',
+      initialState: message.payload.initialState || {},
+      gameId: this.game?.gameId,
+      roomCode: this.game?.roomCode,
+      broadcastUrl: this.game?.broadcastUrl,
+      senderName: message.payload.senderName,
+    });
+
+    return this.sessionUpdate('connected', connection);
+  }
+
+  /**
+   * Disconnect the receiver page and terminate the presentation
+   */
+  private async endSession(): Promise<BaseMessage> {
+    const connection = this.connection;
+
+    if (!connection) {
+      throw new CastKitError('NO_SESSION', 'No active presentation');
+    }
+
+    // Forget the connection first so its terminate event isn't reported twice
+    this.connection = null;
+    connection.removeEventListener('close', this.handleConnectionClosed);
+    connection.removeEventListener('terminate', this.handleConnectionClosed);
+    connection.removeEventListener('message', this.handleReceiverMessage);
+
+    try {
+      this.send(connection, { type: 'CAST_DISCONNECT' });
+    } catch (error) {
+      this.log('Failed to notify the receiver', error);
+    }
+    connection.terminate();
+
+    return this.sessionUpdate('terminated', connection);
+  }
+
+  /**
+   * Forward a state update or patch to the receiver page
+   */
+  private async updateState(message: CastStateUpdateMessage | CastStatePatchMessage): Promise<BaseMessage> {
+    if (!this.connection) {
+      throw new CastKitError('NO_SESSION', 'No active presentation');
+    }
+
+    this.send(this.connection, toReceiverMessage(message));
+
+    return {
+      type: 'CAST_STATE_CONFIRMED',
+      payload: {
+        status: 'delivered',
+        timestamp: Date.now(),
+        seq: message.payload.seq,
+      },
+    };
+  }
+
+  /**
+   * Report presentations closed from the browser or the receiver
+   */
+  private handleConnectionClosed = () => {
+    const connection = this.connection;
+    if (!connection) return;
+
+    this.log('Presentation closed', connection.id);
+
+    this.connection = null;
+    connection.removeEventListener('close', this.handleConnectionClosed);
+    connection.removeEventListener('terminate', this.handleConnectionClosed);
+    connection.removeEventListener('message', this.handleReceiverMessage);
+
+    this.emit(this.sessionUpdate('terminated', connection));
+  };
+
+  /**
+   * Pass messages sent by the receiver page on to the game
+   */
+  private handleReceiverMessage = (event: Event) => {
+    const message = readReceiverReply((event as MessageEvent).data);
+
+    if (message) {
+      this.emit(message);
+    } else {
+      this.log('Ignoring message from the receiver', (event as MessageEvent).data);
+    }
+  };
+
+  /**
+   * Wait for a new connection to finish connecting
+   */
+  private waitUntilConnected(connection: PresentationConnectionLike): Promise<void> {
+    if (connection.state === 'connected') {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        connection.removeEventListener('close', onClose);
+        resolve();
+      };
+      const onClose = () => {
+        connection.removeEventListener('connect', onConnect);
+        reject(new CastKitError('SESSION_ERROR', 'Presentation closed before it connected'));
+      };
+
+      connection.addEventListener('connect', onConnect, { once: true });
+      connection.addEventListener('close', onClose, { once: true });
+    });
+  }
+
+  /**
+   * Send a message to the receiver page
+   */
+  private send(connection: PresentationConnectionLike, data: ReceiverMessage): void {
+    try {
+      connection.send(JSON.stringify(data));
+    } catch (error) {
+      throw new CastKitError('CAST_MESSAGE_FAILED', `Failed to send ${data.type} to the receiver`, {
+        reason: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Build a CAST_SESSION_UPDATED message for a connection
+   */
+  private sessionUpdate(status: 'connected' | 'terminated', connection: PresentationConnectionLike): BaseMessage {
+    return {
+      type: 'CAST_SESSION_UPDATED',
+      payload: {
+        status,
+        deviceId: connection.id,
+        deviceName: this.options.displayName ?? 'Presentation display',
+        sessionId: connection.id,
+        error: null,
+      },
+    };
+  }
+}
+
+/**
+ * Create a Presentation API backend
+ */
+export function createPresentationApiBackend(options: PresentationApiBackendOptions = {}): PresentationApiBackend {
+  return new PresentationApiBackend(options);
+}
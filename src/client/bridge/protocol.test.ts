@@ -0,0 +1,125 @@
+/**
+ * Tests for the Cast Kit bridge protocol
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isReceiverMessageType,
+  isRequestType,
+  negotiateProtocol,
+  parseMessageObject,
+  parseReceiverMessage,
+  parseResponse,
+  toReceiverMessage,
+} from './protocol';
+
+describe('Protocol', () => {
+  describe('negotiateProtocol', () => {
+    it('intersects host features with the features the client knows', () => {
+      const negotiation = negotiateProtocol({
+        protocolVersion: 1,
+        features: ['stateUpdate', 'unknownFeature'],
+      });
+      
+      expect(negotiation).toEqual({
+        protocolVersion: 1,
+        compatible: true,
+        features: ['stateUpdate'],
+      });
+    });
+    
+    it('flags hosts that require a newer protocol as incompatible', () => {
+      const negotiation = negotiateProtocol({ protocolVersion: 5, minProtocolVersion: 4 });
+      
+      expect(negotiation.compatible).toBe(false);
+    });
+  });
+  
+  describe('parseMessageObject', () => {
+    it('reads message objects sent as objects or JSON strings', () => {
+      expect(parseMessageObject({ type: 'CAST_READY' })).toEqual({ type: 'CAST_READY' });
+      expect(parseMessageObject('{"type":"CAST_READY"}')).toEqual({ type: 'CAST_READY' });
+    });
+    
+    it('returns null for anything else', () => {
+      expect(parseMessageObject('not json')).toBeNull();
+      expect(parseMessageObject('42')).toBeNull();
+      expect(parseMessageObject(null)).toBeNull();
+    });
+  });
+  
+  describe('parseResponse', () => {
+    it('knows which messages expect a response', () => {
+      expect(isRequestType('CAST_READY')).toBe(true);
+      expect(isRequestType('CAST_DEVICES_UPDATED')).toBe(false);
+    });
+    
+    it('returns the validated response for a request', () => {
+      const response = parseResponse('CAST_STATE_UPDATE', {
+        type: 'CAST_STATE_CONFIRMED',
+        payload: { status: 'applied' },
+        requestId: 'req-1',
+      });
+      
+      expect(response.payload.status).toBe('applied');
+    });
+    
+    it('throws when the response type does not match the request', () => {
+      expect(() =>
+        parseResponse('CAST_READY', {
+          type: 'CAST_STATE_CONFIRMED',
+          payload: { status: 'applied' },
+          requestId: 'req-1',
+        })
+      ).toThrow('Invalid response to CAST_READY');
+    });
+    
+    it('throws when the response payload has the wrong shape', () => {
+      expect(() =>
+        parseResponse('CAST_READY', {
+          type: 'CAST_INITIALIZED',
+          payload: { available: 'yes' },
+          requestId: 'req-1',
+        })
+      ).toThrow();
+    });
+  });
+    
+  describe('receiver messages', () => {
+    it('knows which messages are meant for the receiver', () => {
+      expect(isReceiverMessageType('CAST_PING')).toBe(true);
+      expect(isReceiverMessageType('CAST_READY')).toBe(false);
+      expect(isReceiverMessageType(undefined)).toBe(false);
+    });
+    
+    it('returns the validated message', () => {
+      expect(parseReceiverMessage({ type: 'CAST_CONNECT', initialState: { score: 0 }, gameId: 'trivia' })).toEqual({
+        type: 'CAST_CONNECT',
+        initialState: { score: 0 },
+        gameId: 'trivia',
+      });
+    });
+    
+    it('throws with the field that does not match', () => {
+      expect(() => parseReceiverMessage({ type: 'CAST_STATE_PATCH', baseVersion: 1, version: 2 }))
+        .toThrow('Invalid CAST_STATE_PATCH message: patch: Required');
+      expect(() => parseReceiverMessage({ type: 'CAST_STATE_UPDATE', state: 'all' }))
+        .toThrow('Invalid CAST_STATE_UPDATE message: state');
+      expect(() => parseReceiverMessage({ type: 'CAST_READY' })).toThrow('Invalid receiver message');
+    });
+    
+    it('turns state requests into messages the receiver accepts', () => {
+      const update = toReceiverMessage({
+        type: 'CAST_STATE_UPDATE',
+        payload: { state: { score: 1 }, version: 3, seq: 4 },
+      });
+      const patch = toReceiverMessage({
+        type: 'CAST_STATE_PATCH',
+        payload: { patch: [{ op: 'remove', path: '/bonus' }], baseVersion: 3, version: 4, seq: 5 },
+      });
+      
+      expect(parseReceiverMessage(update)).toEqual({ type: 'CAST_STATE_UPDATE', state: { score: 1 }, version: 3, seq: 4 });
+      expect(parseReceiverMessage(patch)).toEqual(patch);
+    });
+  });
+});
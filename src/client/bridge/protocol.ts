@@ -2,18 +2,59 @@
  * Cast Kit protocol definition
  * 
  * This module defines the message format and types for communication
- * between web games and the native OpenGame App.
+ * between web games, the native OpenGame App and the receiver page.
  */
 
 import { z } from 'zod';
 
+/**
+ * Version of the bridge protocol implemented by this library
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Features the web side of the protocol knows how to use
+ */
+export const CAST_FEATURES = ['scanDevices', 'session', 'stateUpdate', 'statePatch', 'resumeSession', 'getSession'] as const;
+
+export type CastFeature = (typeof CAST_FEATURES)[number];
+
+/**
+ * Features assumed for hosts that predate the version handshake
+ */
+export const LEGACY_FEATURES: readonly CastFeature[] = ['scanDevices', 'session', 'stateUpdate'];
+
+/**
+ * Source marker for messages sent by the web game
+ */
+export const MESSAGE_SOURCE_WEB = 'cast-kit-web';
+
+/**
+ * Source marker for messages sent by the native host
+ */
+export const MESSAGE_SOURCE_NATIVE = 'cast-kit-native';
+
+/**
+ * Default namespace for messages between the game and a Google Cast receiver app
+ */
+export const DEFAULT_CAST_NAMESPACE = 'urn:x-cast:com.opengame.castkit';
+
+export const messageSourceSchema = z.enum([MESSAGE_SOURCE_WEB, MESSAGE_SOURCE_NATIVE]);
+
+export type MessageSource = z.infer<typeof messageSourceSchema>;
+
 /**
  * Base message schema
+ * 
+ * Every message on the wire carries the side that sent it in `source`, so a
+ * bridge listening on the same channel it posts to can drop its own echoes.
  */
 export const baseMessageSchema = z.object({
   type: z.string(),
   payload: z.record(z.any()),
   requestId: z.string().optional(),
+  source: messageSourceSchema.optional(),
+  signature: z.string().optional(),
 });
 
 export type BaseMessage = z.infer<typeof baseMessageSchema>;
@@ -28,6 +69,8 @@ export const castReadySchema = baseMessageSchema.extend({
     roomCode: z.string().optional(),
     broadcastUrl: z.string().optional(),
     capabilities: z.array(z.string()).optional(),
+    protocolVersion: z.number().int(),
+    features: z.array(z.string()),
   }),
 });
 
@@ -48,6 +91,9 @@ export const castInitializedSchema = baseMessageSchema.extend({
         isConnected: z.boolean(),
       })
     ).optional(),
+    protocolVersion: z.number().int().optional(),
+    minProtocolVersion: z.number().int().optional(),
+    features: z.array(z.string()).optional(),
   }),
 });
 
@@ -90,6 +136,7 @@ export const castStartSessionSchema = baseMessageSchema.extend({
   payload: z.object({
     deviceId: z.string(),
     initialState: z.record(z.any()).optional(),
+    senderName: z.string().optional(),
   }),
 });
 
@@ -121,27 +168,101 @@ export const castEndSessionSchema = baseMessageSchema.extend({
 
 export type CastEndSessionMessage = z.infer<typeof castEndSessionSchema>;
 
+/**
+ * CAST_RESUME_SESSION message - Sent from web to native to reconnect to a lost session
+ * 
+ * The host answers with CAST_SESSION_UPDATED, `connected` when the session
+ * or a new one on the same device is up again.
+ */
+export const castResumeSessionSchema = baseMessageSchema.extend({
+  type: z.literal('CAST_RESUME_SESSION'),
+  payload: z.object({
+    sessionId: z.string(),
+    deviceId: z.string(),
+  }),
+});
+
+export type CastResumeSessionMessage = z.infer<typeof castResumeSessionSchema>;
+
+/**
+ * CAST_GET_SESSION message - Sent from web to native to check whether a session is still alive
+ * 
+ * The host answers with CAST_SESSION_UPDATED, `connected` when the session
+ * is still up and the game can reattach to it.
+ */
+export const castGetSessionSchema = baseMessageSchema.extend({
+  type: z.literal('CAST_GET_SESSION'),
+  payload: z.object({
+    sessionId: z.string(),
+    deviceId: z.string(),
+  }),
+});
+
+export type CastGetSessionMessage = z.infer<typeof castGetSessionSchema>;
+
 /**
  * CAST_STATE_UPDATE message - Sent from web to native to update cast state
+ * 
+ * The state is merged into the receiver's state, or replaces it when
+ * `replace` is set. `version` is the version of the state after the update.
+ * `seq` numbers state updates and patches in the order they were sent, so
+ * receivers can drop updates that arrive after a newer one.
  */
 export const castStateUpdateSchema = baseMessageSchema.extend({
   type: z.literal('CAST_STATE_UPDATE'),
   payload: z.object({
     state: z.record(z.any()),
     timestamp: z.number().optional(),
+    version: z.number().int().optional(),
+    replace: z.boolean().optional(),
+    seq: z.number().int().positive().optional(),
   }),
 });
 
 export type CastStateUpdateMessage = z.infer<typeof castStateUpdateSchema>;
 
+/**
+ * RFC 6902 JSON Patch operation
+ */
+export const jsonPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: z.string(), value: z.any() }),
+  z.object({ op: z.literal('remove'), path: z.string() }),
+  z.object({ op: z.literal('replace'), path: z.string(), value: z.any() }),
+  z.object({ op: z.literal('move'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('copy'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('test'), path: z.string(), value: z.any() }),
+]);
+
+/**
+ * CAST_STATE_PATCH message - Sent from web to native to update cast state with a delta
+ * 
+ * The patch applies to the state at `baseVersion` and produces `version`. A
+ * receiver with another version asks for a full snapshot with CAST_STATE_RESYNC.
+ */
+export const castStatePatchSchema = baseMessageSchema.extend({
+  type: z.literal('CAST_STATE_PATCH'),
+  payload: z.object({
+    patch: z.array(jsonPatchOperationSchema),
+    baseVersion: z.number().int(),
+    version: z.number().int(),
+    timestamp: z.number().optional(),
+    seq: z.number().int().positive().optional(),
+  }),
+});
+
+export type CastStatePatchMessage = z.infer<typeof castStatePatchSchema>;
+
 /**
  * CAST_STATE_CONFIRMED message - Sent from native to web to confirm state update
+ * 
+ * `seq` acknowledges the state update or patch with that sequence number.
  */
 export const castStateConfirmedSchema = baseMessageSchema.extend({
   type: z.literal('CAST_STATE_CONFIRMED'),
   payload: z.object({
     status: z.string(),
     timestamp: z.number().optional(),
+    seq: z.number().int().positive().optional(),
   }),
 });
 
@@ -161,6 +282,96 @@ export const castErrorSchema = baseMessageSchema.extend({
 
 export type CastErrorMessage = z.infer<typeof castErrorSchema>;
 
+/**
+ * CAST_RECEIVER_MESSAGE message - Sent from native to web with a message from the receiver page
+ * 
+ * `type` and `payload` are chosen by the game, e.g. to report that a
+ * countdown on the TV expired.
+ */
+export const castReceiverMessageSchema = baseMessageSchema.extend({
+  type: z.literal('CAST_RECEIVER_MESSAGE'),
+  payload: z.object({
+    type: z.string(),
+    payload: z.record(z.any()),
+    timestamp: z.number().optional(),
+  }),
+});
+
+export type CastReceiverMessage = z.infer<typeof castReceiverMessageSchema>;
+
+/**
+ * Read a message object that may arrive as a JSON string
+ * 
+ * Returns null for strings that aren't JSON and for anything that isn't an object.
+ */
+export function parseMessageObject(data: unknown): { type?: unknown } | null {
+  let value = data;
+  
+  if (typeof data === 'string') {
+    try {
+      value = JSON.parse(data);
+    } catch (_error) {
+      return null;
+    }
+  }
+  
+  return value && typeof value === 'object' ? value : null;
+}
+
+/**
+ * Read a CAST_RECEIVER_MESSAGE sent by the receiver page, as an object or a JSON string
+ * 
+ * Returns null for anything else.
+ */
+export function readCastReceiverMessage(data: unknown): CastReceiverMessage | null {
+  try {
+    const result = castReceiverMessageSchema.safeParse(typeof data === 'string' ? JSON.parse(data) : data);
+    return result.success ? result.data : null;
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * CAST_STATE_RESYNC message - Sent from native to web when the receiver page can't apply a patch
+ * 
+ * The receiver has another state version than the patch was computed against,
+ * or failed to apply it. The client answers with a full snapshot.
+ */
+export const castStateResyncSchema = baseMessageSchema.extend({
+  type: z.literal('CAST_STATE_RESYNC'),
+  payload: z.object({
+    stateVersion: z.number().int().optional(),
+    timestamp: z.number().optional(),
+  }),
+});
+
+export type CastStateResyncMessage = z.infer<typeof castStateResyncSchema>;
+
+/**
+ * Messages the receiver page sends to its senders
+ */
+export const receiverReplySchema = z.discriminatedUnion('type', [
+  castReceiverMessageSchema,
+  castStateResyncSchema,
+]);
+
+export type ReceiverReply = z.infer<typeof receiverReplySchema>;
+
+/**
+ * Read a message sent by the receiver page, as an object or a JSON string
+ * 
+ * Returns null for anything else.
+ */
+export function readReceiverReply(data: unknown): ReceiverReply | null {
+  try {
+    const result = receiverReplySchema.safeParse(typeof data === 'string' ? JSON.parse(data) : data);
+    return result.success ? result.data : null;
+  } catch (_error) {
+    return null;
+  }
+}
+
 /**
  * Union of all message schemas
  */
@@ -172,17 +383,211 @@ export const messageSchema = z.union([
   castStartSessionSchema,
   castSessionUpdatedSchema,
   castEndSessionSchema,
+  castResumeSessionSchema,
+  castGetSessionSchema,
   castStateUpdateSchema,
+  castStatePatchSchema,
   castStateConfirmedSchema,
+  castReceiverMessageSchema,
+  castStateResyncSchema,
   castErrorSchema,
 ]);
 
 export type CastMessage = z.infer<typeof messageSchema>;
 
+/**
+ * Receiver messages
+ * 
+ * Messages for the receiver page are flat: their fields sit next to `type`
+ * instead of in a payload. Hosts that deliver messages for several senders
+ * add the `senderId` of the sender, and each sender announces its name with
+ * `senderName` when it connects.
+ */
+
+/**
+ * CAST_CONNECT receiver message - A controller started casting to the receiver
+ */
+export const receiverConnectSchema = z.object({
+  type: z.literal('CAST_CONNECT'),
+  initialState: z.record(z.any()).optional(),
+  gameId: z.string().optional(),
+  roomCode: z.string().optional(),
+  broadcastUrl: z.string().optional(),
+  senderId: z.string().optional(),
+  senderName: z.string().optional(),
+});
+
+export type ReceiverConnectMessage = z.infer<typeof receiverConnectSchema>;
+
+/**
+ * CAST_DISCONNECT receiver message - A controller stopped casting or went away
+ */
+export const receiverDisconnectSchema = z.object({
+  type: z.literal('CAST_DISCONNECT'),
+  reason: z.string().optional(),
+  senderId: z.string().optional(),
+});
+
+export type ReceiverDisconnectMessage = z.infer<typeof receiverDisconnectSchema>;
+
+/**
+ * CAST_STATE_UPDATE receiver message - The payload of a CAST_STATE_UPDATE request
+ */
+export const receiverStateUpdateSchema = castStateUpdateSchema.shape.payload.extend({
+  type: z.literal('CAST_STATE_UPDATE'),
+  senderId: z.string().optional(),
+});
+
+export type ReceiverStateUpdateMessage = z.infer<typeof receiverStateUpdateSchema>;
+
+/**
+ * CAST_STATE_PATCH receiver message - The payload of a CAST_STATE_PATCH request
+ */
+export const receiverStatePatchSchema = castStatePatchSchema.shape.payload.extend({
+  type: z.literal('CAST_STATE_PATCH'),
+  senderId: z.string().optional(),
+});
+
+export type ReceiverStatePatchMessage = z.infer<typeof receiverStatePatchSchema>;
+
+/**
+ * CAST_PING receiver message - Keeps an idle connection to the receiver alive
+ */
+export const receiverPingSchema = z.object({
+  type: z.literal('CAST_PING'),
+  timestamp: z.number().optional(),
+  senderId: z.string().optional(),
+});
+
+export type ReceiverPingMessage = z.infer<typeof receiverPingSchema>;
+
+/**
+ * Union of all receiver message schemas
+ */
+export const receiverMessageSchema = z.discriminatedUnion('type', [
+  receiverConnectSchema,
+  receiverDisconnectSchema,
+  receiverStateUpdateSchema,
+  receiverStatePatchSchema,
+  receiverPingSchema,
+]);
+
+export type ReceiverMessage = z.infer<typeof receiverMessageSchema>;
+
+export type ReceiverMessageType = ReceiverMessage['type'];
+
+/**
+ * Types of the messages for the receiver page
+ */
+export const RECEIVER_MESSAGE_TYPES: readonly ReceiverMessageType[] = [
+  'CAST_CONNECT',
+  'CAST_DISCONNECT',
+  'CAST_STATE_UPDATE',
+  'CAST_STATE_PATCH',
+  'CAST_PING',
+];
+
+/**
+ * Check whether a message type is meant for the receiver page
+ */
+export function isReceiverMessageType(type: unknown): type is ReceiverMessageType {
+  return RECEIVER_MESSAGE_TYPES.includes(type as ReceiverMessageType);
+}
+
+/**
+ * Validate a receiver message
+ * 
+ * Throws if the message doesn't have the shape of its type.
+ */
+export function parseReceiverMessage(message: unknown): ReceiverMessage {
+  const result = receiverMessageSchema.safeParse(message);
+  
+  if (!result.success) {
+    const type = (message as { type?: unknown } | null)?.type;
+    const [issue] = result.error.issues;
+    const field = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    
+    throw new Error(`Invalid ${isReceiverMessageType(type) ? type : 'receiver'} message: ${field}${issue.message}`);
+  }
+  
+  return result.data;
+}
+
+/**
+ * Build the receiver message for a state update or patch request
+ */
+export function toReceiverMessage(
+  message: CastStateUpdateMessage | CastStatePatchMessage
+): ReceiverStateUpdateMessage | ReceiverStatePatchMessage {
+  return message.type === 'CAST_STATE_UPDATE'
+    ? { type: message.type, ...message.payload }
+    : { type: message.type, ...message.payload };
+}
+
+/**
+ * Expected response schema for each request message
+ */
+export const responseSchemas = {
+  CAST_READY: castInitializedSchema,
+  CAST_SCAN_DEVICES: castDevicesUpdatedSchema,
+  CAST_START_SESSION: castSessionUpdatedSchema,
+  CAST_END_SESSION: castSessionUpdatedSchema,
+  CAST_RESUME_SESSION: castSessionUpdatedSchema,
+  CAST_GET_SESSION: castSessionUpdatedSchema,
+  CAST_STATE_UPDATE: castStateConfirmedSchema,
+  CAST_STATE_PATCH: castStateConfirmedSchema,
+} as const;
+
+/**
+ * Messages that expect a response from the host
+ */
+export type CastRequestMessage =
+  | CastReadyMessage
+  | CastScanDevicesMessage
+  | CastStartSessionMessage
+  | CastEndSessionMessage
+  | CastResumeSessionMessage
+  | CastGetSessionMessage
+  | CastStateUpdateMessage
+  | CastStatePatchMessage;
+
+export type CastRequestType = keyof typeof responseSchemas;
+
+/**
+ * Response message for a given request type
+ */
+export type CastResponseMessage<T extends CastRequestType> = z.infer<(typeof responseSchemas)[T]>;
+
+/**
+ * Check whether a message type expects a response
+ */
+export function isRequestType(type: string): type is CastRequestType {
+  return Object.prototype.hasOwnProperty.call(responseSchemas, type);
+}
+
+/**
+ * Validate a response against the schema expected for its request
+ * 
+ * Throws if the response doesn't have the expected shape.
+ */
+export function parseResponse<T extends CastRequestType>(
+  requestType: T,
+  message: unknown
+): CastResponseMessage<T> {
+  const result = responseSchemas[requestType].safeParse(message);
+  
+  if (!result.success) {
+    const receivedType = (message as BaseMessage | null)?.type ?? typeof message;
+    throw new Error(`Invalid response to ${requestType}: received ${receivedType}`);
+  }
+  
+  return result.data as CastResponseMessage<T>;
+}
+
 /**
  * Validate a message against the schema
  */
-export function validateMessage(message: unknown): boolean {
+export function validateMessage(message: unknown): message is CastMessage {
   try {
     messageSchema.parse(message);
     return true;
@@ -191,6 +596,52 @@ export function validateMessage(message: unknown): boolean {
   }
 }
 
+/**
+ * Result of negotiating the protocol with the host
+ */
+export interface ProtocolNegotiation {
+  /**
+   * Protocol version reported by the host (0 for hosts without the handshake)
+   */
+  protocolVersion: number;
+
+  /**
+   * Whether the host can talk to this version of the library
+   */
+  compatible: boolean;
+
+  /**
+   * Features supported by both sides
+   */
+  features: CastFeature[];
+}
+
+/**
+ * Negotiate the protocol version and feature set from a CAST_INITIALIZED payload
+ */
+export function negotiateProtocol(payload: {
+  protocolVersion?: number;
+  minProtocolVersion?: number;
+  features?: string[];
+}): ProtocolNegotiation {
+  // Hosts that predate the handshake don't send a version
+  if (payload.protocolVersion === undefined) {
+    return {
+      protocolVersion: 0,
+      compatible: true,
+      features: [...LEGACY_FEATURES],
+    };
+  }
+
+  const hostFeatures = payload.features || [];
+
+  return {
+    protocolVersion: payload.protocolVersion,
+    compatible: (payload.minProtocolVersion ?? 0) <= PROTOCOL_VERSION,
+    features: CAST_FEATURES.filter((feature) => hostFeatures.includes(feature)),
+  };
+}
+
 /**
  * Helper function to create a message with request ID
  */
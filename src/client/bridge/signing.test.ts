@@ -0,0 +1,37 @@
+/**
+ * Tests for message signing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canonicalJson, signMessage, verifyMessageSignature } from './signing';
+
+describe('Message signing', () => {
+  it('serializes objects with sorted keys', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, 'x'], c: null }, e: undefined })).toBe(
+      '{"a":{"c":null,"d":[1,"x"]},"b":1}'
+    );
+  });
+
+  it('verifies messages signed with the same secret', async () => {
+    const message = await signMessage(
+      { type: 'CAST_DEVICES_UPDATED', payload: { devices: [] }, requestId: 'req-1' },
+      'secret'
+    );
+
+    expect(message.signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyMessageSignature(message, 'secret')).toBe(true);
+    expect(await verifyMessageSignature(message, 'other')).toBe(false);
+  });
+
+  it('rejects messages that were changed after signing', async () => {
+    const message = await signMessage({ type: 'CAST_ERROR', payload: { code: 'A' } }, 'secret');
+
+    expect(
+      await verifyMessageSignature({ ...message, payload: { code: 'B' } }, 'secret')
+    ).toBe(false);
+  });
+
+  it('rejects unsigned messages', async () => {
+    expect(await verifyMessageSignature({ type: 'CAST_ERROR', payload: {} }, 'secret')).toBe(false);
+  });
+});
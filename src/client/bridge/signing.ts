@@ -0,0 +1,90 @@
+/**
+ * Message signing
+ *
+ * This module implements the optional HMAC authentication of bridge messages.
+ * The host signs each message with a per-session shared secret, and the bridge
+ * verifies the signature before dispatching the message.
+ *
+ * The signature is the hex encoded HMAC-SHA256 of the canonical JSON of the
+ * message without its `signature` field. Canonical JSON is plain JSON with
+ * object keys sorted and no whitespace.
+ */
+
+import { BaseMessage } from './protocol';
+
+/**
+ * Serialize a value as canonical JSON
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Get the bytes covered by a message signature
+ */
+function signingInput(message: BaseMessage): BufferSource {
+  const { signature: _signature, ...unsigned } = message;
+  return new TextEncoder().encode(canonicalJson(unsigned));
+}
+
+/**
+ * Import a shared secret as an HMAC key
+ */
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Sign a message with a shared secret
+ */
+export async function signMessage<T extends BaseMessage>(
+  message: T,
+  secret: string
+): Promise<T & { signature: string }> {
+  const key = await importKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, signingInput(message));
+
+  const hex = Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return { ...message, signature: hex };
+}
+
+/**
+ * Verify the signature of a message
+ */
+export async function verifyMessageSignature(message: BaseMessage, secret: string): Promise<boolean> {
+  const { signature } = message;
+
+  if (!signature || !/^([0-9a-f]{2})+$/i.test(signature)) {
+    return false;
+  }
+
+  const bytes = new Uint8Array(signature.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(signature.substring(i * 2, i * 2 + 2), 16);
+  }
+
+  const key = await importKey(secret, 'verify');
+  return crypto.subtle.verify('HMAC', key, bytes, signingInput(message));
+}
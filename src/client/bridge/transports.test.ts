@@ -0,0 +1,123 @@
+/**
+ * Tests for the bridge transports
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createAndroidTransport,
+  createMessagePortTransport,
+  createReactNativeTransport,
+  createWebKitTransport,
+  createWindowTransport,
+} from './transports';
+import { WebViewBridge } from './webview-bridge';
+import { BaseMessage } from './protocol';
+
+/**
+ * The globals host shells inject into the page
+ */
+const hostWindow = window as unknown as {
+  ReactNativeWebView?: { postMessage(message: string): void };
+  webkit?: { messageHandlers: Record<string, { postMessage(message: unknown): void }> };
+  CastKitAndroid?: { postMessage(message: string): void };
+};
+
+const testMessage: BaseMessage = {
+  type: 'CAST_SCAN_DEVICES',
+  payload: {},
+  requestId: 'scan-1',
+};
+
+describe('Bridge transports', () => {
+  afterEach(() => {
+    hostWindow.ReactNativeWebView = undefined;
+    hostWindow.webkit = undefined;
+    hostWindow.CastKitAndroid = undefined;
+  });
+
+  it('posts to the window with the target origin', () => {
+    const postMessage = vi.spyOn(window, 'postMessage').mockImplementation(() => {});
+
+    createWindowTransport({ targetOrigin: 'https://example.com' }).send(testMessage);
+
+    expect(postMessage).toHaveBeenCalledWith(testMessage, 'https://example.com');
+    postMessage.mockRestore();
+  });
+
+  it('sends JSON strings to a React Native WebView', () => {
+    const postMessage = vi.fn();
+    hostWindow.ReactNativeWebView = { postMessage };
+
+    createReactNativeTransport().send(testMessage);
+
+    expect(postMessage).toHaveBeenCalledWith(JSON.stringify(testMessage));
+  });
+
+  it('listens on the document for React Native replies', () => {
+    const handler = vi.fn();
+    const stop = createReactNativeTransport().listen(handler);
+
+    document.dispatchEvent(new MessageEvent('message', { data: '{}' }));
+    stop();
+    document.dispatchEvent(new MessageEvent('message', { data: '{}' }));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends messages to a WKWebView script message handler', () => {
+    const postMessage = vi.fn();
+    hostWindow.webkit = { messageHandlers: { castKit: { postMessage } } };
+
+    createWebKitTransport().send(testMessage);
+
+    expect(postMessage).toHaveBeenCalledWith(testMessage);
+  });
+
+  it('throws when the host shell is missing', () => {
+    expect(() => createWebKitTransport({ handlerName: 'other' }).send(testMessage)).toThrow(
+      'webkit.messageHandlers.other is not available'
+    );
+  });
+
+  it('sends JSON strings to an Android JavascriptInterface', () => {
+    const postMessage = vi.fn();
+    hostWindow.CastKitAndroid = { postMessage };
+
+    createAndroidTransport().send(testMessage);
+
+    expect(postMessage).toHaveBeenCalledWith(JSON.stringify(testMessage));
+  });
+
+  it('carries requests and responses over a MessagePort', async () => {
+    const channel = new MessageChannel();
+    const bridge = new WebViewBridge({ transport: createMessagePortTransport(channel.port1) });
+    const listener = vi.fn();
+    bridge.addEventListener('message', listener);
+
+    // Act as the host on the other end of the channel, replying with a JSON string
+    channel.port2.addEventListener('message', (event) => {
+      channel.port2.postMessage(
+        JSON.stringify({
+          type: 'CAST_DEVICES_UPDATED',
+          payload: { devices: [] },
+          requestId: event.data.requestId,
+          source: 'cast-kit-native',
+        })
+      );
+    });
+    channel.port2.start();
+
+    const response = await bridge.sendMessageWithResponse({
+      type: 'CAST_SCAN_DEVICES',
+      payload: {},
+      requestId: 'scan-1',
+    });
+
+    expect(response.type).toBe('CAST_DEVICES_UPDATED');
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ data: response }));
+
+    bridge.dispose();
+    channel.port1.close();
+    channel.port2.close();
+  });
+});
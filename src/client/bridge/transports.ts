@@ -0,0 +1,195 @@
+/**
+ * Bridge transports
+ *
+ * This module provides the transports a bridge can use to exchange messages
+ * with the different host shells a game can run in.
+ */
+
+import { BaseMessage } from './protocol';
+
+/**
+ * Transport used by a bridge to talk to its host
+ */
+export interface BridgeTransport {
+  /**
+   * Deliver a message to the host
+   */
+  send(message: BaseMessage): void;
+
+  /**
+   * Listen for messages from the host
+   *
+   * Returns a function that stops listening.
+   */
+  listen(handler: (event: MessageEvent) => void): () => void;
+}
+
+/**
+ * Globals injected into the page by the supported host shells
+ */
+interface HostWindow extends Window {
+  ReactNativeWebView?: {
+    postMessage(data: string): void;
+  };
+  webkit?: {
+    messageHandlers: Record<string, { postMessage(message: unknown): void } | undefined>;
+  };
+}
+
+/**
+ * Listen for message events on the window
+ */
+function listenOnWindow(handler: (event: MessageEvent) => void): () => void {
+  const listener = handler as EventListener;
+  window.addEventListener('message', listener);
+
+  return () => {
+    window.removeEventListener('message', listener);
+  };
+}
+
+/**
+ * Options for the window transport
+ */
+export interface WindowTransportOptions {
+  /**
+   * Target origin for postMessage
+   * @default '*'
+   */
+  targetOrigin?: string;
+}
+
+/**
+ * Create a transport that talks to the host through window.postMessage
+ */
+export function createWindowTransport(options: WindowTransportOptions = {}): BridgeTransport {
+  const targetOrigin = options.targetOrigin ?? '*';
+
+  return {
+    send(message) {
+      window.postMessage(message, targetOrigin);
+    },
+    listen: listenOnWindow,
+  };
+}
+
+/**
+ * Create a transport for pages hosted in a React Native WebView
+ *
+ * Outgoing messages go through window.ReactNativeWebView.postMessage, which
+ * only accepts strings. Injected replies arrive on the window on iOS and on
+ * the document on Android.
+ */
+export function createReactNativeTransport(): BridgeTransport {
+  return {
+    send(message) {
+      const host = (window as HostWindow).ReactNativeWebView;
+
+      if (!host) {
+        throw new Error('window.ReactNativeWebView is not available');
+      }
+
+      host.postMessage(JSON.stringify(message));
+    },
+    listen(handler) {
+      const listener = handler as EventListener;
+      const stopWindow = listenOnWindow(handler);
+      document.addEventListener('message', listener);
+
+      return () => {
+        stopWindow();
+        document.removeEventListener('message', listener);
+      };
+    },
+  };
+}
+
+/**
+ * Options for the WKWebView transport
+ */
+export interface WebKitTransportOptions {
+  /**
+   * Name of the script message handler registered by the host
+   * @default 'castKit'
+   */
+  handlerName?: string;
+}
+
+/**
+ * Create a transport for pages hosted in an iOS WKWebView
+ *
+ * Outgoing messages go through webkit.messageHandlers, replies are injected
+ * with window.postMessage.
+ */
+export function createWebKitTransport(options: WebKitTransportOptions = {}): BridgeTransport {
+  const handlerName = options.handlerName ?? 'castKit';
+
+  return {
+    send(message) {
+      const handler = (window as HostWindow).webkit?.messageHandlers[handlerName];
+
+      if (!handler) {
+        throw new Error(`webkit.messageHandlers.${handlerName} is not available`);
+      }
+
+      handler.postMessage(message);
+    },
+    listen: listenOnWindow,
+  };
+}
+
+/**
+ * Options for the Android transport
+ */
+export interface AndroidTransportOptions {
+  /**
+   * Name of the @JavascriptInterface object added by the host
+   * @default 'CastKitAndroid'
+   */
+  interfaceName?: string;
+}
+
+/**
+ * Create a transport for pages hosted in an Android WebView
+ *
+ * Outgoing messages are passed as JSON strings to a @JavascriptInterface
+ * object, replies are injected with window.postMessage.
+ */
+export function createAndroidTransport(options: AndroidTransportOptions = {}): BridgeTransport {
+  const interfaceName = options.interfaceName ?? 'CastKitAndroid';
+
+  return {
+    send(message) {
+      const javascriptInterface = (
+        window as unknown as Record<string, { postMessage(data: string): void } | undefined>
+      )[interfaceName];
+
+      if (!javascriptInterface) {
+        throw new Error(`window.${interfaceName} is not available`);
+      }
+
+      javascriptInterface.postMessage(JSON.stringify(message));
+    },
+    listen: listenOnWindow,
+  };
+}
+
+/**
+ * Create a transport that talks to the host through a MessagePort
+ */
+export function createMessagePortTransport(port: MessagePort): BridgeTransport {
+  return {
+    send(message) {
+      port.postMessage(message);
+    },
+    listen(handler) {
+      const listener = handler as EventListener;
+      port.addEventListener('message', listener);
+      port.start();
+
+      return () => {
+        port.removeEventListener('message', listener);
+      };
+    },
+  };
+}
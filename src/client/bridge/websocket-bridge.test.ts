@@ -0,0 +1,212 @@
+/**
+ * Tests for the WebSocket bridge
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketBridge } from './websocket-bridge';
+
+/**
+ * Minimal in-memory stand-in for the browser WebSocket
+ */
+class FakeWebSocket extends EventTarget {
+  static instances: FakeWebSocket[] = [];
+
+  sent: string[] = [];
+
+  constructor(public url: string) {
+    super();
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.dispatchEvent(new Event('close'));
+  }
+
+  open() {
+    this.dispatchEvent(new Event('open'));
+  }
+
+  receive(message: object) {
+    const data = JSON.stringify({ ...message, source: 'cast-kit-native' });
+    this.dispatchEvent(new MessageEvent('message', { data }));
+  }
+
+  drop() {
+    this.dispatchEvent(new Event('close'));
+  }
+}
+
+describe('WebSocket Bridge', () => {
+  let bridge: WebSocketBridge;
+
+  const createBridge = (options: Partial<ConstructorParameters<typeof WebSocketBridge>[0]> = {}) =>
+    new WebSocketBridge({
+      url: 'ws://localhost:8787/?room=test',
+      WebSocket: FakeWebSocket as unknown as typeof WebSocket,
+      ...options,
+    });
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    bridge?.close();
+    vi.useRealTimers();
+  });
+
+  it('queues messages until the socket is open', () => {
+    bridge = createBridge();
+    const socket = FakeWebSocket.instances[0];
+
+    bridge.sendMessage({ type: 'CAST_SCAN_DEVICES', payload: {} });
+    expect(socket.sent).toHaveLength(0);
+
+    socket.open();
+
+    expect(bridge.getStatus()).toBe('open');
+    expect(JSON.parse(socket.sent[0]).type).toBe('CAST_SCAN_DEVICES');
+  });
+
+  it('correlates responses through the requestId', async () => {
+    bridge = createBridge();
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    const promise = bridge.sendMessageWithResponse({
+      type: 'CAST_SCAN_DEVICES',
+      payload: {},
+      requestId: 'scan-1',
+    });
+
+    socket.receive({
+      type: 'CAST_DEVICES_UPDATED',
+      payload: { devices: [{ id: 'tv', name: 'TV', type: 'chromecast', isConnected: false }] },
+      requestId: 'scan-1',
+    });
+
+    const response = await promise;
+    expect(response.payload.devices).toHaveLength(1);
+  });
+
+  it('dispatches incoming messages to listeners', () => {
+    bridge = createBridge();
+    const socket = FakeWebSocket.instances[0];
+    const listener = vi.fn();
+    bridge.addEventListener('message', listener);
+    socket.open();
+
+    socket.receive({ type: 'CAST_DEVICES_UPDATED', payload: { devices: [] } });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect((listener.mock.calls[0][0] as MessageEvent).data.type).toBe('CAST_DEVICES_UPDATED');
+  });
+
+  it('reconnects with exponential backoff', () => {
+    vi.useFakeTimers();
+    bridge = createBridge({ reconnect: { initialDelay: 100, factor: 2, maxDelay: 1000, jitter: 0 } });
+
+    FakeWebSocket.instances[0].drop();
+    expect(bridge.getStatus()).toBe('reconnecting');
+
+    vi.advanceTimersByTime(99);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    FakeWebSocket.instances[1].drop();
+    vi.advanceTimersByTime(199);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    FakeWebSocket.instances[2].open();
+    expect(bridge.getStatus()).toBe('open');
+  });
+
+  it('stops after the maximum number of attempts', () => {
+    vi.useFakeTimers();
+    bridge = createBridge({ reconnect: { initialDelay: 10, maxAttempts: 1, jitter: 0 } });
+
+    FakeWebSocket.instances[0].drop();
+    vi.advanceTimersByTime(10);
+    FakeWebSocket.instances[1].drop();
+
+    expect(bridge.getStatus()).toBe('closed');
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('takes a random fraction of up to the jitter off each delay', () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    bridge = createBridge({ reconnect: { initialDelay: 100, jitter: 0.5 } });
+
+    FakeWebSocket.instances[0].drop();
+    vi.advanceTimersByTime(74);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    vi.mocked(Math.random).mockRestore();
+  });
+
+  it('keeps reconnecting when opening the socket throws', () => {
+    vi.useFakeTimers();
+    let failures = 2;
+
+    class FlakyWebSocket extends FakeWebSocket {
+      constructor(url: string) {
+        if (failures > 0) {
+          failures--;
+          throw new SyntaxError('Invalid URL');
+        }
+        super(url);
+      }
+    }
+
+    bridge = createBridge({
+      WebSocket: FlakyWebSocket as unknown as typeof WebSocket,
+      reconnect: { initialDelay: 100, jitter: 0 },
+    });
+    expect(bridge.getStatus()).toBe('reconnecting');
+
+    vi.advanceTimersByTime(100);
+    expect(bridge.getStatus()).toBe('reconnecting');
+    expect(FakeWebSocket.instances).toHaveLength(0);
+
+    vi.advanceTimersByTime(200);
+    FakeWebSocket.instances[0].open();
+
+    expect(bridge.getStatus()).toBe('open');
+  });
+
+  it('does not reconnect after close', () => {
+    vi.useFakeTimers();
+    bridge = createBridge();
+
+    bridge.close();
+    vi.advanceTimersByTime(10000);
+
+    expect(bridge.getStatus()).toBe('closed');
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it('rejects pending requests and closes the socket when disposed', async () => {
+    bridge = createBridge();
+    const socket = FakeWebSocket.instances[0];
+    const close = vi.spyOn(socket, 'close');
+    socket.open();
+
+    const promise = bridge.sendMessageWithResponse({ type: 'CAST_SCAN_DEVICES', payload: {}, requestId: 'scan-1' });
+    bridge.dispose();
+
+    await expect(promise).rejects.toMatchObject({ code: 'BRIDGE_DISPOSED' });
+    expect(close).toHaveBeenCalled();
+    expect(bridge.getStatus()).toBe('closed');
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * WebSocket Bridge implementation
+ *
+ * This module provides a bridge that speaks the Cast Kit protocol over a
+ * WebSocket to a casting relay, for games running outside the OpenGame App.
+ */
+
+import { BaseMessage, CastRequestMessage, CastResponseMessage } from './protocol';
+import { BridgeTransport } from './transports';
+import { Bridge, WebViewBridge } from './webview-bridge';
+
+/**
+ * Reconnect policy for the WebSocket bridge
+ */
+export interface WebSocketReconnectOptions {
+  /**
+   * Delay before the first reconnect attempt in milliseconds
+   * @default 500
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for the reconnect delay in milliseconds
+   * @default 10000
+   */
+  maxDelay?: number;
+
+  /**
+   * Factor the delay grows by after each failed attempt
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * Maximum number of consecutive attempts before giving up
+   * @default Infinity
+   */
+  maxAttempts?: number;
+
+  /**
+   * Fraction of the delay, between 0 and 1, that is randomly taken off so
+   * clients don't all reconnect at the same moment
+   * @default 0.5
+   */
+  jitter?: number;
+}
+
+/**
+ * Options for creating a WebSocket bridge
+ */
+export interface WebSocketBridgeOptions {
+  /**
+   * URL of the casting relay
+   */
+  url: string;
+
+  /**
+   * WebSocket subprotocols
+   */
+  protocols?: string | string[];
+
+  /**
+   * Timeout for sendMessageWithResponse in milliseconds
+   * @default 5000
+   */
+  timeout?: number;
+
+  /**
+   * Reconnect policy, or false to disable reconnecting
+   */
+  reconnect?: WebSocketReconnectOptions | false;
+
+  /**
+   * Maximum number of messages kept while the socket isn't open
+   * @default 100
+   */
+  maxQueueSize?: number;
+
+  /**
+   * WebSocket implementation to use
+   * @default globalThis.WebSocket
+   */
+  WebSocket?: typeof WebSocket;
+
+  /**
+   * Whether to enable debug logging
+   * @default false
+   */
+  debug?: boolean;
+}
+
+/**
+ * Connection status of the WebSocket bridge
+ */
+export type WebSocketBridgeStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * Default reconnect policy
+ */
+const DEFAULT_RECONNECT: Required<WebSocketReconnectOptions> = {
+  initialDelay: 500,
+  maxDelay: 10000,
+  factor: 2,
+  maxAttempts: Number.POSITIVE_INFINITY,
+  jitter: 0.5,
+};
+
+/**
+ * Implementation of Bridge interface over a WebSocket
+ *
+ * Request correlation is handled by a WebViewBridge running on top of a
+ * transport that owns the socket, so replies keep working across reconnects.
+ */
+export class WebSocketBridge implements Bridge {
+  private bridge: WebViewBridge;
+
+  private socket: WebSocket | null = null;
+
+  private status: WebSocketBridgeStatus = 'connecting';
+
+  private handler: ((event: MessageEvent) => void) | null = null;
+
+  private queue: string[] = [];
+
+  private attempts = 0;
+
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private options: WebSocketBridgeOptions;
+
+  private reconnect: Required<WebSocketReconnectOptions> | null;
+
+  constructor(options: WebSocketBridgeOptions) {
+    this.options = options;
+    this.reconnect = options.reconnect === false
+      ? null
+      : { ...DEFAULT_RECONNECT, ...options.reconnect };
+
+    // Only forward the options the caller set, so the bridge defaults apply
+    const { timeout, debug } = options;
+    this.bridge = new WebViewBridge({
+      transport: this.createTransport(),
+      ...(timeout !== undefined && { timeout }),
+      ...(debug !== undefined && { debug }),
+    });
+
+    this.connect();
+  }
+
+  /**
+   * Get the connection status
+   */
+  public getStatus(): WebSocketBridgeStatus {
+    return this.status;
+  }
+
+  /**
+   * Send a message through the bridge
+   */
+  public sendMessage(message: BaseMessage): void {
+    this.bridge.sendMessage(message);
+  }
+
+  /**
+   * Send a request and wait for its validated response
+   */
+  public sendMessageWithResponse<M extends CastRequestMessage>(
+    message: M,
+    timeout?: number
+  ): Promise<CastResponseMessage<M['type']>> {
+    return this.bridge.sendMessageWithResponse(message, timeout);
+  }
+
+  /**
+   * Add an event listener for incoming messages
+   */
+  public addEventListener(type: string, listener: EventListener): void {
+    this.bridge.addEventListener(type, listener);
+  }
+
+  /**
+   * Remove an event listener
+   */
+  public removeEventListener(type: string, listener: EventListener): void {
+    this.bridge.removeEventListener(type, listener);
+  }
+
+  /**
+   * Close the socket and stop reconnecting
+   */
+  public close(): void {
+    this.status = 'closed';
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.socket?.close();
+    this.socket = null;
+    this.queue = [];
+
+    this.bridge.dispose();
+  }
+
+  /**
+   * Reject pending requests, then close the socket
+   */
+  public dispose(): void {
+    this.bridge.dispose();
+    this.close();
+  }
+
+  /**
+   * Create the transport that carries bridge messages over the socket
+   */
+  private createTransport(): BridgeTransport {
+    return {
+      send: (message) => {
+        const data = JSON.stringify(message);
+
+        if (this.socket && this.status === 'open') {
+          this.socket.send(data);
+          return;
+        }
+
+        // Keep the message until the socket is open again
+        this.queue.push(data);
+
+        const maxQueueSize = this.options.maxQueueSize ?? 100;
+        if (this.queue.length > maxQueueSize) {
+          this.queue.splice(0, this.queue.length - maxQueueSize);
+        }
+      },
+      listen: (handler) => {
+        this.handler = handler;
+
+        return () => {
+          this.handler = null;
+        };
+      },
+    };
+  }
+
+  /**
+   * Open the socket
+   */
+  private connect(): void {
+    const WebSocketImpl = this.options.WebSocket ?? globalThis.WebSocket;
+
+    if (!WebSocketImpl) {
+      throw new Error('WebSocket is not available in this environment');
+    }
+
+    let socket: WebSocket;
+
+    // A bad URL or a blocked port throws right away, which counts as a failed attempt
+    try {
+      socket = new WebSocketImpl(this.options.url, this.options.protocols);
+    } catch (error) {
+      this.log('Failed to open the socket', error);
+      this.socket = null;
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.log('Connected', this.options.url);
+      this.status = 'open';
+      this.attempts = 0;
+      this.flushQueue();
+    });
+
+    socket.addEventListener('message', (event) => {
+      this.handler?.(event);
+    });
+
+    socket.addEventListener('close', () => {
+      if (this.socket !== socket || this.status === 'closed') return;
+
+      this.socket = null;
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Schedule the next reconnect attempt with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    if (!this.reconnect || this.attempts >= this.reconnect.maxAttempts) {
+      this.log('Connection closed');
+      this.status = 'closed';
+      return;
+    }
+
+    const { initialDelay, maxDelay, factor, jitter } = this.reconnect;
+    const backoff = Math.min(maxDelay, initialDelay * factor ** this.attempts);
+    const delay = Math.round(backoff * (1 - jitter * Math.random()));
+
+    this.attempts++;
+    this.status = 'reconnecting';
+    this.log(`Reconnecting in ${delay}ms`, { attempt: this.attempts });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Send the messages queued while the socket wasn't open
+   */
+  private flushQueue(): void {
+    const queue = this.queue;
+    this.queue = [];
+
+    for (const data of queue) {
+      this.socket?.send(data);
+    }
+  }
+
+  /**
+   * Log a message if debug is enabled
+   */
+  private log(message: string, data?: unknown): void {
+    if (this.options.debug) {
+      console.log(`CastKit [WS]: ${message}`, data);
+    }
+  }
+}
+
+/**
+ * Create a WebSocket bridge
+ */
+export function createWebSocketBridge(options: WebSocketBridgeOptions): WebSocketBridge {
+  return new WebSocketBridge(options);
+}
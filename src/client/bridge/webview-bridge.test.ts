@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { WebViewBridge, createWebViewBridge, Bridge } from './webview-bridge';
 import { BaseMessage } from './protocol';
+import { CastKitError } from '../core/errors';
+import { signMessage } from './signing';
 
 // Mock window.postMessage
 vi.stubGlobal('window', { 
@@ -17,6 +19,18 @@ vi.stubGlobal('window', {
 // Mock setupMessageListener to avoid addEventListener issues in tests
 vi.spyOn(WebViewBridge.prototype, 'setupMessageListener').mockImplementation(() => {});
 
+/**
+ * Internals of the bridge the tests drive directly, as its listener is mocked
+ */
+interface BridgeInternals {
+  setupMessageListener(): void;
+  handleMessage(event: { data: unknown; origin?: string; source?: unknown }): void;
+  pendingRequests: Map<string, unknown>;
+  verification: Promise<void>;
+}
+
+const internalsOf = (bridge: WebViewBridge) => bridge as unknown as BridgeInternals;
+
 describe('WebView Bridge', () => {
   let bridge: Bridge;
 
@@ -77,6 +91,9 @@ describe('WebView Bridge', () => {
       requestId: 'test-123'
     });
     
+    // TEST_MESSAGE isn't a request type, so no response is waited for
+    const rejected = expect(promise).rejects.toThrow('Message type does not expect a response: TEST_MESSAGE');
+    
     // Simulate receiving a response message
     const pendingRequestsMap = new Map();
     pendingRequestsMap.set('test-123', {
@@ -119,7 +136,7 @@ describe('WebView Bridge', () => {
     // Cleanup
     consoleLogSpy.mockRestore();
     
-    return promise;
+    return rejected;
   });
 
   it('detects when running in OpenGame App', () => {
@@ -150,7 +167,7 @@ describe('WebView Bridge', () => {
     bridge.sendMessage(testMessage);
     
     expect(global.window.postMessage).toHaveBeenCalledWith(
-      testMessage,
+      { ...testMessage, source: 'cast-kit-web' },
       '*'
     );
   });
@@ -160,7 +177,7 @@ describe('WebView Bridge', () => {
     
     // Create a new bridge to trigger addEventListener
     const testBridge = new WebViewBridge({ debug: false });
-    (testBridge as any).setupMessageListener();
+    internalsOf(testBridge).setupMessageListener();
     
     expect(spy).toHaveBeenCalledWith('message', expect.any(Function));
   });
@@ -213,12 +230,223 @@ describe('WebView Bridge', () => {
     };
     
     // Add a pending request
-    (testBridge as any).pendingRequests.set('test-id', pendingRequest);
+    internalsOf(testBridge).pendingRequests.set('test-id', pendingRequest);
     
     // Call dispose
     testBridge.dispose();
     
     // Check that pendingRequests map is cleared
-    expect((testBridge as any).pendingRequests.size).toBe(0);
+    expect(internalsOf(testBridge).pendingRequests.size).toBe(0);
+  });
+  
+  describe('request correlation', () => {
+    const readyMessage = {
+      type: 'CAST_READY' as const,
+      payload: { gameId: 'test-game', protocolVersion: 1, features: [] },
+      requestId: 'ready-1'
+    };
+    
+    const receive = (target: WebViewBridge, data: unknown) => {
+      internalsOf(target).handleMessage({ data });
+    };
+    
+    it('resolves with the validated response message', async () => {
+      const testBridge = new WebViewBridge();
+      const promise = testBridge.sendMessageWithResponse(readyMessage);
+      
+      receive(testBridge, {
+        type: 'CAST_INITIALIZED',
+        payload: { available: true, protocolVersion: 1, features: ['session'] },
+        requestId: 'ready-1',
+        source: 'cast-kit-native'
+      });
+      
+      const response = await promise;
+      expect(response.type).toBe('CAST_INITIALIZED');
+      expect(response.payload.available).toBe(true);
+    });
+    
+    it('ignores echoes of its own request', async () => {
+      const testBridge = new WebViewBridge();
+      const promise = testBridge.sendMessageWithResponse(readyMessage);
+      
+      receive(testBridge, { ...readyMessage, source: 'cast-kit-web' });
+      receive(testBridge, {
+        type: 'CAST_INITIALIZED',
+        payload: { available: false },
+        requestId: 'ready-1',
+        source: 'cast-kit-native'
+      });
+      
+      await expect(promise).resolves.toMatchObject({ type: 'CAST_INITIALIZED' });
+    });
+    
+    it('rejects when the response has the wrong shape', async () => {
+      const testBridge = new WebViewBridge();
+      const promise = testBridge.sendMessageWithResponse(readyMessage);
+      
+      receive(testBridge, {
+        type: 'CAST_STATE_CONFIRMED',
+        payload: { status: 'applied' },
+        requestId: 'ready-1',
+        source: 'cast-kit-native'
+      });
+      
+      await expect(promise).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+    
+    it('rejects with a CastKitError for correlated CAST_ERROR replies', async () => {
+      const testBridge = new WebViewBridge();
+      const promise = testBridge.sendMessageWithResponse(readyMessage);
+      
+      receive(testBridge, {
+        type: 'CAST_ERROR',
+        payload: {
+          code: 'CAST_UNAVAILABLE',
+          message: 'Cast SDK failed to load',
+          details: { reason: 'network' }
+        },
+        requestId: 'ready-1',
+        source: 'cast-kit-native'
+      });
+      
+      const error = await promise.catch((reason) => reason);
+      expect(error).toBeInstanceOf(CastKitError);
+      expect(error.code).toBe('CAST_UNAVAILABLE');
+      expect(error.message).toBe('Cast SDK failed to load');
+      expect(error.details).toEqual({ reason: 'network' });
+    });
+    
+    it('forgets the request when the transport fails to send it', async () => {
+      vi.useFakeTimers();
+      const testBridge = new WebViewBridge({
+        transport: {
+          send: () => {
+            throw new Error('Host is gone');
+          },
+          listen: () => () => {}
+        }
+      });
+      
+      try {
+        await expect(testBridge.sendMessageWithResponse(readyMessage)).rejects.toThrow('Host is gone');
+        
+        expect(internalsOf(testBridge).pendingRequests.size).toBe(0);
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+  
+  describe('message authentication', () => {
+    const devicesMessage = {
+      type: 'CAST_DEVICES_UPDATED',
+      payload: { devices: [] },
+      source: 'cast-kit-native' as const
+    };
+    
+    const createListeningBridge = (options = {}) => {
+      const testBridge = new WebViewBridge(options);
+      const listener = vi.fn();
+      testBridge.addEventListener('message', listener);
+      return { testBridge, listener };
+    };
+    
+    it('drops messages from origins that are not allowed', () => {
+      const { testBridge, listener } = createListeningBridge({
+        allowedOrigins: ['https://game.example.com']
+      });
+      
+      internalsOf(testBridge).handleMessage({ data: devicesMessage, origin: 'https://evil.example.com' });
+      internalsOf(testBridge).handleMessage({ data: devicesMessage, origin: 'https://game.example.com' });
+      
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+    
+    it('drops messages posted by other windows', () => {
+      const { testBridge, listener } = createListeningBridge();
+      
+      internalsOf(testBridge).handleMessage({ data: devicesMessage, source: {} });
+      internalsOf(testBridge).handleMessage({ data: devicesMessage, source: window });
+      
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+    
+    it('only dispatches messages signed with the shared secret', async () => {
+      const { testBridge, listener } = createListeningBridge({ secret: 'session-secret' });
+      
+      const signed = await signMessage(devicesMessage, 'session-secret');
+      const forged = await signMessage(devicesMessage, 'guessed-secret');
+      
+      internalsOf(testBridge).handleMessage({ data: devicesMessage });
+      internalsOf(testBridge).handleMessage({ data: forged });
+      internalsOf(testBridge).handleMessage({ data: signed });
+      await internalsOf(testBridge).verification;
+      
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].data).toEqual(signed);
+    });
+    
+    it('keeps handling signed messages after one fails', async () => {
+      const { testBridge, listener } = createListeningBridge({ secret: 'session-secret' });
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      listener.mockImplementationOnce(() => {
+        throw new Error('Listener failed');
+      });
+      
+      const signed = await signMessage(devicesMessage, 'session-secret');
+      
+      internalsOf(testBridge).handleMessage({ data: signed });
+      internalsOf(testBridge).handleMessage({ data: signed });
+      await internalsOf(testBridge).verification;
+      
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(consoleError).toHaveBeenCalledTimes(1);
+      consoleError.mockRestore();
+    });
+  });
+  
+  describe('message direction', () => {
+    it('marks outgoing messages as coming from the web game', () => {
+      const send = vi.fn();
+      const testBridge = new WebViewBridge({ transport: { send, listen: () => () => {} } });
+      
+      testBridge.sendMessage({ type: 'CAST_SCAN_DEVICES', payload: {} });
+      
+      expect(send).toHaveBeenCalledWith({
+        type: 'CAST_SCAN_DEVICES',
+        payload: {},
+        source: 'cast-kit-web'
+      });
+    });
+    
+    it('drops the echoes of its own messages', () => {
+      const testBridge = new WebViewBridge();
+      const listener = vi.fn();
+      testBridge.addEventListener('message', listener);
+      
+      const message = { type: 'CAST_STATE_UPDATE', payload: { state: {} } };
+      internalsOf(testBridge).handleMessage({ data: { ...message, source: 'cast-kit-web' } });
+      internalsOf(testBridge).handleMessage({ data: message });
+      internalsOf(testBridge).handleMessage({ data: { ...message, source: 'cast-kit-native' } });
+      
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+    
+    it('accepts replies from hosts that do not mark their messages', async () => {
+      const testBridge = new WebViewBridge();
+      const promise = testBridge.sendMessageWithResponse({
+        type: 'CAST_READY',
+        payload: { gameId: 'test-game', protocolVersion: 1, features: [] },
+        requestId: 'ready-1'
+      });
+      
+      internalsOf(testBridge).handleMessage({
+        data: { type: 'CAST_INITIALIZED', payload: { available: true }, requestId: 'ready-1' }
+      });
+      
+      await expect(promise).resolves.toMatchObject({ type: 'CAST_INITIALIZED' });
+    });
   });
-}); 
\ No newline at end of file
+});
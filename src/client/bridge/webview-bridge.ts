@@ -2,10 +2,24 @@
  * WebView Bridge implementation
  * 
  * This module provides the bridge implementation for communicating
- * with the native OpenGame App via WebView postMessage.
+ * with the native OpenGame App. Messages are carried by a pluggable
+ * transport, window.postMessage by default.
  */
 
-import { BaseMessage, validateMessage } from './protocol';
+import {
+  BaseMessage,
+  CastMessage,
+  CastRequestMessage,
+  CastRequestType,
+  CastResponseMessage,
+  isRequestType,
+  parseResponse,
+  validateMessage,
+  MESSAGE_SOURCE_WEB,
+} from './protocol';
+import { CastKitError } from '../core/errors';
+import { BridgeTransport, createWindowTransport } from './transports';
+import { verifyMessageSignature } from './signing';
 
 /**
  * Bridge interface for communication
@@ -17,9 +31,12 @@ export interface Bridge {
   sendMessage(message: BaseMessage): void;
   
   /**
-   * Send a message and wait for a response
+   * Send a request and wait for its validated response
    */
-  sendMessageWithResponse<T extends BaseMessage>(message: BaseMessage, timeout?: number): Promise<T>;
+  sendMessageWithResponse<M extends CastRequestMessage>(
+    message: M,
+    timeout?: number
+  ): Promise<CastResponseMessage<M['type']>>;
   
   /**
    * Add an event listener for incoming messages
@@ -30,6 +47,11 @@ export interface Bridge {
    * Remove an event listener
    */
   removeEventListener(type: string, listener: EventListener): void;
+  
+  /**
+   * Stop listening to the host and reject pending requests
+   */
+  dispose?(): void;
 }
 
 /**
@@ -37,11 +59,30 @@ export interface Bridge {
  */
 export interface WebViewBridgeOptions {
   /**
-   * Target origin for postMessage
+   * Transport used to talk to the host
+   * @default window.postMessage transport
+   */
+  transport?: BridgeTransport;
+  
+  /**
+   * Target origin for postMessage when using the default transport
    * @default '*'
    */
   targetOrigin?: string;
   
+  /**
+   * Origins allowed to send messages to the bridge
+   * @default any origin
+   */
+  allowedOrigins?: string[];
+  
+  /**
+   * Shared secret the host signs each message with (HMAC-SHA256)
+   * 
+   * When set, unsigned messages and messages with an invalid signature are dropped.
+   */
+  secret?: string;
+  
   /**
    * Timeout for sendMessageWithResponse in milliseconds
    * @default 5000
@@ -69,15 +110,31 @@ const DEFAULT_OPTIONS: WebViewBridgeOptions = {
  */
 export class WebViewBridge implements Bridge {
   private pendingRequests: Map<string, {
+    requestType: CastRequestType;
     resolve: (value: unknown) => void;
     reject: (reason: unknown) => void;
     timer: ReturnType<typeof setTimeout>;
   }> = new Map();
   
+  private listeners: Map<string, Set<EventListener>> = new Map();
+  
+  private stopListening: (() => void) | null = null;
+  
   private options: Required<WebViewBridgeOptions>;
   
+  private transport: BridgeTransport;
+  
+  private secret: string | null;
+  
+  private verification: Promise<void> = Promise.resolve();
+  
   constructor(options: WebViewBridgeOptions = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options } as Required<WebViewBridgeOptions>;
+    this.secret = options.secret ?? null;
+    
+    this.transport = options.transport ?? createWindowTransport({
+      targetOrigin: this.options.targetOrigin,
+    });
     
     // Setup message listener
     this.setupMessageListener();
@@ -87,36 +144,45 @@ export class WebViewBridge implements Bridge {
    * Send a message through the bridge
    */
   public sendMessage(message: BaseMessage): void {
+    const outgoing: BaseMessage = { ...message, source: MESSAGE_SOURCE_WEB };
+    
     if (this.options.debug) {
-      console.log('CastKit [SEND]:', message);
+      console.log('CastKit [SEND]:', outgoing);
     }
     
-    window.postMessage(message, this.options.targetOrigin);
+    this.transport.send(outgoing);
   }
   
   /**
-   * Send a message and wait for a response
+   * Send a request and wait for its validated response
    */
-  public sendMessageWithResponse<T extends BaseMessage>(
-    message: BaseMessage,
+  public sendMessageWithResponse<M extends CastRequestMessage>(
+    message: M,
     timeout = this.options.timeout
-  ): Promise<T> {
+  ): Promise<CastResponseMessage<M['type']>> {
     if (!message.requestId) {
       throw new Error('Message must have a requestId for sendMessageWithResponse');
     }
     
-    return new Promise<T>((resolve, reject) => {
+    const requestType = message.type;
+    
+    if (!isRequestType(requestType)) {
+      return Promise.reject(new Error(`Message type does not expect a response: ${requestType}`));
+    }
+    
+    return new Promise<CastResponseMessage<M['type']>>((resolve, reject) => {
       // Setup timeout
       const timer = setTimeout(() => {
         if (message.requestId) {
           this.pendingRequests.delete(message.requestId);
         }
-        reject(new Error(`Request timed out after ${timeout}ms: ${message.type}`));
+        reject(new CastKitError('TIMEOUT', `Request timed out after ${timeout}ms: ${message.type}`));
       }, timeout);
       
       // Store the pending request
       if (message.requestId) {
         this.pendingRequests.set(message.requestId, {
+          requestType,
           resolve: resolve as (value: unknown) => void,
           reject,
           timer
@@ -126,37 +192,101 @@ export class WebViewBridge implements Bridge {
         reject(new Error('Message missing requestId'));
       }
       
-      // Send the message
-      this.sendMessage(message);
+      // Send the message, forgetting the request if the transport throws
+      try {
+        this.sendMessage(message);
+      } catch (error) {
+        clearTimeout(timer);
+        if (message.requestId) {
+          this.pendingRequests.delete(message.requestId);
+        }
+        reject(error);
+      }
     });
   }
   
+  /**
+   * Set the shared secret used to verify message signatures
+   * 
+   * Pass null to stop verifying signatures.
+   */
+  public setSecret(secret: string | null): void {
+    this.secret = secret;
+  }
+  
   /**
    * Add an event listener for incoming messages
+   * 
+   * Listeners only receive messages that passed validation.
    */
   public addEventListener(type: string, listener: EventListener): void {
-    window.addEventListener(type, listener);
+    let listeners = this.listeners.get(type);
+    
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    
+    listeners.add(listener);
   }
   
   /**
    * Remove an event listener
    */
   public removeEventListener(type: string, listener: EventListener): void {
-    window.removeEventListener(type, listener);
+    this.listeners.get(type)?.delete(listener);
   }
   
   /**
    * Setup the message listener for incoming messages
    */
   private setupMessageListener(): void {
-    window.addEventListener('message', this.handleMessage as EventListener);
+    this.stopListening = this.transport.listen(this.handleMessage);
+  }
+  
+  /**
+   * Dispatch a validated message to the bridge listeners
+   */
+  private dispatchMessage(message: BaseMessage): void {
+    const listeners = this.listeners.get('message');
+    
+    if (!listeners) return;
+    
+    const event = new MessageEvent('message', { data: message });
+    
+    for (const listener of listeners) {
+      listener(event);
+    }
+  }
+  
+  /**
+   * Check that an event comes from an allowed origin and from the host
+   */
+  private isTrustedEvent(event: MessageEvent): boolean {
+    const { allowedOrigins } = this.options;
+    
+    if (allowedOrigins && !allowedOrigins.includes(event.origin)) {
+      return false;
+    }
+    
+    // The host posts into this window; messages from other windows (iframes,
+    // popups, openers) are never from the host. Transports without a source
+    // window (MessagePort, document events) report null.
+    return !event.source || event.source === window;
   }
   
   /**
    * Handle incoming messages
    */
   private handleMessage = (event: MessageEvent): void => {
-    const message = event.data;
+    if (!this.isTrustedEvent(event)) {
+      if (this.options.debug) {
+        console.warn('CastKit: Message from untrusted source dropped', event.origin);
+      }
+      return;
+    }
+    
+    const message = parseMessageData(event.data);
     
     // Check if the message is valid
     if (!validateMessage(message)) {
@@ -166,15 +296,47 @@ export class WebViewBridge implements Bridge {
       return;
     }
     
+    // Drop the echoes of our own messages on transports that post to the
+    // window we listen on. Older hosts don't mark their messages at all
+    if (message.source === MESSAGE_SOURCE_WEB) {
+      return;
+    }
+    
+    const secret = this.secret;
+    
+    if (!secret) {
+      this.processMessage(message);
+      return;
+    }
+    
+    // Verify signatures one message at a time to keep messages in order. A
+    // failure only drops its own message, the next ones are still handled
+    this.verification = this.verification
+      .then(async () => {
+        if (await verifyMessageSignature(message, secret)) {
+          this.processMessage(message);
+        } else if (this.options.debug) {
+          console.warn('CastKit: Message with invalid signature dropped', message);
+        }
+      })
+      .catch((error) => {
+        console.error('CastKit: Failed to handle signed message, message dropped', error);
+      });
+  };
+  
+  /**
+   * Process a trusted, valid message
+   */
+  private processMessage(message: CastMessage): void {
     if (this.options.debug) {
       console.log('CastKit [RECV]:', message);
     }
     
-    // If this is a response to a request, resolve the promise
+    // If this is a response to a request, settle the promise
     if (message.requestId && this.pendingRequests.has(message.requestId)) {
       const pendingRequest = this.pendingRequests.get(message.requestId);
       if (pendingRequest) {
-        const { resolve, timer } = pendingRequest;
+        const { requestType, resolve, reject, timer } = pendingRequest;
         
         // Clear the timeout
         clearTimeout(timer);
@@ -182,23 +344,40 @@ export class WebViewBridge implements Bridge {
         // Remove from pending requests
         this.pendingRequests.delete(message.requestId);
         
-        // Resolve with the response
-        resolve(message.payload || {});
+        if (message.type === 'CAST_ERROR') {
+          // Reject with the error the host correlated to this request
+          reject(new CastKitError(
+            message.payload.code,
+            message.payload.message,
+            message.payload.details
+          ));
+        } else {
+          // Resolve with the validated response, or reject if it has the wrong shape
+          try {
+            resolve(parseResponse(requestType, message));
+          } catch (error) {
+            reject(new CastKitError('INVALID_RESPONSE', (error as Error).message, { response: message }));
+          }
+        }
       }
     }
-  };
+    
+    this.dispatchMessage(message);
+  }
   
   /**
    * Clean up resources when the bridge is no longer needed
    */
   public dispose(): void {
-    // Remove event listener
-    window.removeEventListener('message', this.handleMessage as EventListener);
+    // Stop listening to the transport
+    this.stopListening?.();
+    this.stopListening = null;
+    this.listeners.clear();
     
     // Clear all pending requests
     for (const { timer, reject } of this.pendingRequests.values()) {
       clearTimeout(timer);
-      reject(new Error('Bridge disposed'));
+      reject(new CastKitError('BRIDGE_DISPOSED', 'Bridge disposed'));
     }
     
     // Clear the map
@@ -206,6 +385,21 @@ export class WebViewBridge implements Bridge {
   }
 }
 
+/**
+ * Parse incoming message data, decoding hosts that send JSON strings
+ */
+function parseMessageData(data: unknown): unknown {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  
+  try {
+    return JSON.parse(data);
+  } catch (_error) {
+    return data;
+  }
+}
+
 /**
  * Create a WebView bridge
  */
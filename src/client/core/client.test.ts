@@ -4,7 +4,12 @@
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { createCastClient } from './client';
-import type { CastClient } from './client';
+import type { CastClient, CastClientOptions } from './client';
+import type { SessionTransition } from './types';
+import { CastKitError } from './errors';
+import { createWebViewBridge } from '../bridge/webview-bridge';
+import type { Bridge } from '../bridge/webview-bridge';
+import type { CastFeature, CastRequestMessage, CastRequestType } from '../bridge/protocol';
 
 // Mock the WebView bridge
 vi.mock('../bridge/webview-bridge', () => {
@@ -21,7 +26,7 @@ vi.mock('../bridge/webview-bridge', () => {
       sendMessageWithResponse: vi.fn().mockImplementation((message) => {
         if (message.type === 'CAST_READY') {
           return Promise.resolve({
-            type: 'CAST_READY_RESPONSE',
+            type: 'CAST_INITIALIZED',
             payload: {
               available: true,
               devices: [
@@ -53,25 +58,34 @@ vi.mock('../bridge/webview-bridge', () => {
           }
           
           return Promise.resolve({
-            type: 'CAST_START_SESSION_RESPONSE',
+            type: 'CAST_SESSION_UPDATED',
             payload: {
-              success: true
+              status: 'connected',
+              deviceId: 'device1',
+              deviceName: 'Test TV',
+              sessionId: 'session-123',
+              error: null
             },
             requestId: message.requestId
           });
         } if (message.type === 'CAST_END_SESSION') {
           return Promise.resolve({
-            type: 'CAST_END_SESSION_RESPONSE',
+            type: 'CAST_SESSION_UPDATED',
             payload: {
-              success: true
+              status: 'terminated',
+              deviceId: 'device1',
+              deviceName: 'Test TV',
+              sessionId: 'session-123',
+              error: null
             },
             requestId: message.requestId
           });
         } if (message.type === 'CAST_STATE_UPDATE') {
           return Promise.resolve({
-            type: 'CAST_STATE_UPDATE_RESPONSE',
+            type: 'CAST_STATE_CONFIRMED',
             payload: {
-              success: true
+              status: 'applied',
+              timestamp: message.payload.timestamp
             },
             requestId: message.requestId
           });
@@ -96,9 +110,12 @@ vi.mock('../bridge/webview-bridge', () => {
           }
           
           return Promise.resolve({
-            type: 'CAST_SCAN_DEVICES_RESPONSE',
+            type: 'CAST_DEVICES_UPDATED',
             payload: {
-              success: true
+              devices: [
+                { id: 'device1', name: 'Test TV', type: 'chromecast', isConnected: false },
+                { id: 'device2', name: 'Another TV', type: 'chromecast', isConnected: false }
+              ]
             },
             requestId: message.requestId
           });
@@ -117,6 +134,108 @@ vi.mock('../bridge/webview-bridge', () => {
 // Store event listeners
 const eventListeners: Record<string, ((event: MessageEvent) => void)[]> = {};
 
+/**
+ * Handlers answering the requests of one type
+ */
+type RequestHandlers = {
+  [T in CastRequestType]?: (message: Extract<CastRequestMessage, { type: T }>) => Promise<unknown>;
+};
+
+/**
+ * Options for the fake host
+ */
+interface FakeHostOptions {
+  /** Features the host reports in CAST_INITIALIZED */
+  features?: CastFeature[];
+  
+  /** Handlers replacing the default answers */
+  handlers?: RequestHandlers;
+}
+
+/**
+ * Answer a state update with a confirmation
+ */
+const confirmed = (status: string, seq?: number) =>
+  Promise.resolve({ type: 'CAST_STATE_CONFIRMED', payload: { status, seq } });
+
+/**
+ * Bridge standing in for the host, passed to clients through the `bridge` option
+ * 
+ * Sessions connect to 'Test TV' with ID 'session-123' and state updates are
+ * applied, unless a handler answers otherwise.
+ */
+const createFakeHost = ({ features = ['session', 'stateUpdate', 'statePatch'], handlers = {} }: FakeHostOptions = {}) => {
+  const listeners = new Set<EventListener>();
+  
+  const receive = (data: Record<string, unknown>) => {
+    const event = new MessageEvent('message', { data });
+    
+    for (const listener of [...listeners]) {
+      listener(event);
+    }
+  };
+  
+  const session = (status: string, sessionId = 'session-123') => ({
+    status,
+    deviceId: 'device1',
+    deviceName: 'Test TV',
+    sessionId,
+    error: null
+  });
+  
+  const defaults: RequestHandlers = {
+    CAST_READY: () => Promise.resolve({
+      type: 'CAST_INITIALIZED',
+      payload: { available: true, protocolVersion: 1, features }
+    }),
+    CAST_START_SESSION: () => {
+      receive({ type: 'CAST_SESSION_UPDATED', payload: session('connected') });
+      return Promise.resolve({ type: 'CAST_SESSION_UPDATED', payload: session('connected') });
+    },
+    CAST_END_SESSION: () => Promise.resolve({ type: 'CAST_SESSION_UPDATED', payload: session('terminated') }),
+    CAST_STATE_UPDATE: (message) => confirmed('applied', message.payload.seq),
+    CAST_STATE_PATCH: (message) => confirmed('applied', message.payload.seq)
+  };
+  
+  const send = vi.fn((message: CastRequestMessage) => {
+    const handler = (handlers[message.type] ?? defaults[message.type]) as
+      | ((message: CastRequestMessage) => Promise<unknown>)
+      | undefined;
+    
+    return handler ? handler(message) : Promise.reject(new Error(`Unexpected request: ${message.type}`));
+  });
+  
+  const bridge: Bridge = {
+    sendMessage: vi.fn(),
+    sendMessageWithResponse: send as Bridge['sendMessageWithResponse'],
+    addEventListener: (_type, listener) => {
+      listeners.add(listener);
+    },
+    removeEventListener: (_type, listener) => {
+      listeners.delete(listener);
+    },
+    dispose: vi.fn()
+  };
+  
+  return {
+    bridge,
+    send,
+    
+    /** Deliver a message from the host */
+    receive,
+    
+    /** Report a change of the session from the host */
+    updateSession: (status: string, sessionId?: string) =>
+      receive({ type: 'CAST_SESSION_UPDATED', payload: session(status, sessionId) }),
+    
+    /** Requests of one type sent so far */
+    sent: <T extends CastRequestType>(type: T) =>
+      send.mock.calls
+        .map(([message]) => message)
+        .filter((message): message is Extract<CastRequestMessage, { type: T }> => message.type === type)
+  };
+};
+
 describe('CastKitClient', () => {
   let client: CastClient;
   
@@ -269,8 +388,8 @@ describe('CastKitClient', () => {
     const clientWithMock = client;
     const originalMethod = clientWithMock.bridge.sendMessageWithResponse;
     clientWithMock.bridge.sendMessageWithResponse = vi.fn().mockResolvedValue({
-      type: 'CAST_STATE_UPDATE_RESPONSE',
-      payload: { success: true }
+      type: 'CAST_STATE_CONFIRMED',
+      payload: { status: 'applied' }
     });
     
     // Expect an error when trying to update state without a session
@@ -279,4 +398,1019 @@ describe('CastKitClient', () => {
     // Restore original method
     clientWithMock.bridge.sendMessageWithResponse = originalMethod;
   });
-}); 
\ No newline at end of file
+  
+  describe('protocol negotiation', () => {
+    const respondToReady = (payload: Record<string, unknown>) => {
+      const host = createFakeHost({
+        handlers: {
+          CAST_READY: () => Promise.resolve({
+            type: 'CAST_INITIALIZED',
+            payload: { available: true, devices: [], ...payload }
+          })
+        }
+      });
+      client = createCastClient({ bridge: host.bridge });
+      return host.send;
+    };
+    
+    it('should send the protocol version and features with CAST_READY', async () => {
+      const send = respondToReady({ protocolVersion: 1, features: ['session'] });
+      
+      await client.signalReady({ gameId: 'test-game' });
+      
+      const [message] = send.mock.calls[0];
+      expect(message.payload.protocolVersion).toBe(1);
+      expect(message.payload.features).toEqual(['scanDevices', 'session', 'stateUpdate', 'statePatch', 'resumeSession', 'getSession']);
+    });
+    
+    it('should keep the features supported by both sides', async () => {
+      respondToReady({ protocolVersion: 1, features: ['session', 'stateUpdate', 'hologram'] });
+      
+      await client.signalReady({ gameId: 'test-game' });
+      
+      const state = client.getState();
+      expect(state.protocolVersion).toBe(1);
+      expect(state.features).toEqual(['session', 'stateUpdate']);
+    });
+    
+    it('should assume the legacy feature set for hosts without a version', async () => {
+      respondToReady({});
+      
+      await client.signalReady({ gameId: 'test-game' });
+      
+      const state = client.getState();
+      expect(state.protocolVersion).toBe(0);
+      expect(state.features).toEqual(['scanDevices', 'session', 'stateUpdate']);
+    });
+    
+    it('should reject hosts that require a newer protocol', async () => {
+      respondToReady({ protocolVersion: 3, minProtocolVersion: 2, features: [] });
+      
+      await expect(client.signalReady({ gameId: 'test-game' })).rejects.toThrow();
+      
+      const state = client.getState();
+      expect(state.isAvailable).toBe(false);
+      expect(state.error?.code).toBe('PROTOCOL_MISMATCH');
+    });
+    
+    it('should reject calls the host cannot handle', async () => {
+      respondToReady({ protocolVersion: 1, features: ['scanDevices'] });
+      
+      await client.signalReady({ gameId: 'test-game' });
+      
+      await expect(client.startCasting('device1')).rejects.toThrow();
+      expect(client.getState().error?.code).toBe('UNSUPPORTED_FEATURE');
+    });
+    
+    it('should skip scanning when the host cannot scan', async () => {
+      const send = respondToReady({ protocolVersion: 1, features: ['session'] });
+      
+      await client.signalReady({ gameId: 'test-game' });
+      await client.scanForDevices();
+      
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(client.getState().isScanning).toBe(false);
+    });
+  });
+  
+  describe('state sync', () => {
+    const createPatchingClient = (options: FakeHostOptions = {}) => {
+      const host = createFakeHost(options);
+      const patchingClient = createCastClient({ stateSync: 'patch', bridge: host.bridge });
+      return { patchingClient, host };
+    };
+    
+    it('should send patches against the last confirmed state', async () => {
+      const { patchingClient, host } = createPatchingClient();
+      
+      await patchingClient.signalReady({ gameId: 'test-game' });
+      await patchingClient.startCasting('device1', {
+        initialState: { score: 0, players: { a: { hp: 3 } } }
+      });
+      await patchingClient.sendStateUpdate({ players: { a: { hp: 2 } } });
+      await patchingClient.sendStateUpdate({ score: undefined });
+      
+      const patches = host.sent('CAST_STATE_PATCH');
+      expect(patches[0].payload).toMatchObject({
+        patch: [{ op: 'replace', path: '/players/a/hp', value: 2 }],
+        baseVersion: 0,
+        version: 1
+      });
+      expect(patches[1].payload).toMatchObject({
+        patch: [{ op: 'remove', path: '/score' }],
+        baseVersion: 1,
+        version: 2
+      });
+    });
+    
+    it('should skip updates that do not change the state', async () => {
+      const { patchingClient, host } = createPatchingClient();
+      
+      await patchingClient.signalReady({ gameId: 'test-game' });
+      await patchingClient.startCasting('device1', { initialState: { score: 0 } });
+      await patchingClient.sendStateUpdate({ score: 0 });
+      
+      expect(host.sent('CAST_STATE_PATCH')).toHaveLength(0);
+    });
+    
+    it('should send a snapshot when the receiver needs to resync', async () => {
+      const { patchingClient, host } = createPatchingClient();
+      
+      await patchingClient.signalReady({ gameId: 'test-game' });
+      await patchingClient.startCasting('device1', { initialState: { score: 0, level: 1 } });
+      await patchingClient.sendStateUpdate({ score: 5 });
+      
+      host.receive({ type: 'CAST_STATE_RESYNC', payload: { stateVersion: 0 } });
+      
+      await vi.waitFor(() => {
+        expect(host.sent('CAST_STATE_UPDATE')).toHaveLength(1);
+      });
+      expect(host.sent('CAST_STATE_UPDATE')[0].payload).toMatchObject({
+        state: { score: 5, level: 1 },
+        version: 2,
+        replace: true
+      });
+    });
+    
+    it('should send snapshots to hosts without patch support', async () => {
+      const { patchingClient, host } = createPatchingClient({ features: ['session', 'stateUpdate'] });
+      
+      await patchingClient.signalReady({ gameId: 'test-game' });
+      await patchingClient.startCasting('device1', { initialState: { score: 0, bonus: true } });
+      await patchingClient.sendStateUpdate({ bonus: undefined });
+      
+      expect(host.sent('CAST_STATE_PATCH')).toHaveLength(0);
+      expect(host.sent('CAST_STATE_UPDATE')[0].payload).toMatchObject({
+        state: { score: 0 },
+        replace: true
+      });
+    });
+  });
+  
+  describe('sequence numbers', () => {
+    const createSequencedClient = (options: CastClientOptions = {}) => {
+      const confirms: Array<() => void> = [];
+      const host = createFakeHost({
+        handlers: {
+          // Hold confirmations until the test releases them
+          CAST_STATE_UPDATE: (message) => new Promise((resolve) => {
+            confirms.push(() => resolve(confirmed('applied', message.payload.seq)));
+          })
+        }
+      });
+      const sequencedClient = createCastClient({ ...options, bridge: host.bridge });
+      return { sequencedClient, host, confirms };
+    };
+    
+    it('should number state updates in the order they are sent', async () => {
+      const { sequencedClient, host } = createSequencedClient();
+      
+      await sequencedClient.signalReady({ gameId: 'test-game' });
+      await sequencedClient.startCasting('device1');
+      sequencedClient.sendStateUpdate({ score: 1 });
+      sequencedClient.sendStateUpdate({ score: 2 });
+      
+      const updates = host.sent('CAST_STATE_UPDATE');
+      expect(updates.map((update) => update.payload.seq)).toEqual([1, 2]);
+      expect(sequencedClient.getState()).toMatchObject({ lastConfirmedSeq: null, inFlightSeqs: 2 });
+    });
+    
+    it('should only move the confirmed sequence number forward', async () => {
+      const { sequencedClient, confirms } = createSequencedClient();
+      
+      await sequencedClient.signalReady({ gameId: 'test-game' });
+      await sequencedClient.startCasting('device1');
+      const first = sequencedClient.sendStateUpdate({ score: 1 });
+      const second = sequencedClient.sendStateUpdate({ score: 2 });
+      
+      confirms[1]();
+      await second;
+      expect(sequencedClient.getState()).toMatchObject({ lastConfirmedSeq: 2, inFlightSeqs: 0 });
+      
+      confirms[0]();
+      await first;
+      expect(sequencedClient.getState()).toMatchObject({ lastConfirmedSeq: 2, inFlightSeqs: 0 });
+    });
+    
+    it('should merge updates made while one is in flight', async () => {
+      const { sequencedClient, host, confirms } = createSequencedClient({ stateUpdates: { mode: 'leading' } });
+      
+      await sequencedClient.signalReady({ gameId: 'test-game' });
+      await sequencedClient.startCasting('device1');
+      const first = sequencedClient.sendStateUpdate({ x: 1 });
+      const second = sequencedClient.sendStateUpdate({ x: 2 });
+      const third = sequencedClient.sendStateUpdate({ y: 3 });
+      
+      expect(sequencedClient.getUpdateStats()).toEqual({ queued: 2, merged: 1, dropped: 0, sent: 1 });
+      
+      confirms[0]();
+      await first;
+      await vi.waitFor(() => expect(confirms).toHaveLength(2));
+      confirms[1]();
+      await Promise.all([second, third]);
+      
+      const updates = host.sent('CAST_STATE_UPDATE');
+      expect(updates.map((update) => update.payload)).toMatchObject([
+        { state: { x: 1 }, seq: 1 },
+        { state: { x: 2, y: 3 }, seq: 2 }
+      ]);
+      expect(sequencedClient.getState().lastConfirmedSeq).toBe(2);
+    });
+    
+    it('should restart numbering for each session', async () => {
+      const { sequencedClient, host, confirms } = createSequencedClient();
+      
+      await sequencedClient.signalReady({ gameId: 'test-game' });
+      await sequencedClient.startCasting('device1');
+      const update = sequencedClient.sendStateUpdate({ score: 1 });
+      confirms[0]();
+      await update;
+      
+      await sequencedClient.startCasting('device1');
+      sequencedClient.sendStateUpdate({ score: 2 });
+      
+      expect(host.sent('CAST_STATE_UPDATE').at(-1)?.payload.seq).toBe(1);
+      expect(sequencedClient.getState()).toMatchObject({ lastConfirmedSeq: null, inFlightSeqs: 1 });
+    });
+  });
+  
+  const emitSessionUpdate = (status: string) => {
+    const event = new MessageEvent('message', {
+      data: {
+        type: 'CAST_SESSION_UPDATED',
+        payload: { status, deviceId: 'device1', deviceName: 'Test TV', sessionId: 'session-123', error: null }
+      }
+    });
+    
+    for (const listener of eventListeners.message) {
+      listener(event);
+    }
+  };
+  
+  describe('offline queue', () => {
+    const startReconnecting = async (options: CastClientOptions) => {
+      const host = createFakeHost();
+      const reconnectingClient = createCastClient({ ...options, bridge: host.bridge });
+      
+      await reconnectingClient.signalReady({ gameId: 'test-game' });
+      await reconnectingClient.startCasting('device1');
+      host.updateSession('connecting');
+      
+      return { reconnectingClient, host };
+    };
+    
+    it('should send updates made while reconnecting once connected', async () => {
+      const { reconnectingClient, host } = await startReconnecting({ offlineQueue: true });
+      
+      const first = reconnectingClient.sendStateUpdate({ x: 1, bonus: true });
+      const second = reconnectingClient.sendStateUpdate({ y: 2, bonus: undefined });
+      
+      expect(reconnectingClient.getUpdateStats().queued).toBe(2);
+      expect(host.sent('CAST_STATE_UPDATE')).toHaveLength(0);
+      
+      host.updateSession('connected');
+      await Promise.all([first, second]);
+      
+      const updates = host.sent('CAST_STATE_UPDATE');
+      expect(updates).toHaveLength(1);
+      expect(updates[0].payload.state).toEqual({ x: 1, y: 2, bonus: undefined });
+      expect(reconnectingClient.getUpdateStats().queued).toBe(0);
+    });
+    
+    it('should reject queued updates when the session ends', async () => {
+      const { reconnectingClient, host } = await startReconnecting({ offlineQueue: true });
+      
+      const update = reconnectingClient.sendStateUpdate({ x: 1 });
+      host.updateSession('terminated');
+      
+      await expect(update).rejects.toThrow('No active cast session');
+    });
+    
+    it('should expire updates queued for too long', async () => {
+      vi.useFakeTimers();
+      
+      try {
+        const { reconnectingClient, host } = await startReconnecting({ offlineQueue: { maxAge: 1000 } });
+        
+        const update = expect(reconnectingClient.sendStateUpdate({ x: 1 })).rejects.toMatchObject({
+          code: 'OFFLINE_QUEUE_EXPIRED'
+        });
+        vi.advanceTimersByTime(1001);
+        host.updateSession('connected');
+        
+        await update;
+        await vi.advanceTimersByTimeAsync(0);
+        
+        // The receiver still gets the keys of the expired update
+        expect(host.sent('CAST_STATE_UPDATE').at(-1)?.payload.state).toEqual({ x: 1 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+    
+    it('should expire queued updates while the session stays down', async () => {
+      vi.useFakeTimers();
+      
+      try {
+        const { reconnectingClient } = await startReconnecting({ offlineQueue: { maxAge: 1000 } });
+        const rejected = vi.fn();
+        reconnectingClient.sendStateUpdate({ x: 1 }).catch(rejected);
+        
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(rejected).not.toHaveBeenCalled();
+        
+        await vi.advanceTimersByTimeAsync(1);
+        expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ code: 'OFFLINE_QUEUE_EXPIRED' }));
+        expect(reconnectingClient.getUpdateStats()).toMatchObject({ queued: 0, dropped: 1 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+    
+    it('should evict the oldest update when the queue is full', async () => {
+      const { reconnectingClient, host } = await startReconnecting({ offlineQueue: { maxSize: 1 } });
+      
+      const oldest = reconnectingClient.sendStateUpdate({ x: 1, y: 1 });
+      const newest = reconnectingClient.sendStateUpdate({ x: 2 });
+      
+      await expect(oldest).rejects.toMatchObject({ code: 'OFFLINE_QUEUE_FULL' });
+      expect(reconnectingClient.getUpdateStats()).toMatchObject({ queued: 1, dropped: 1 });
+      
+      host.updateSession('connected');
+      await newest;
+      
+      // The newest state wins, and the keys of the evicted update are kept
+      expect(host.sent('CAST_STATE_UPDATE').at(-1)?.payload.state).toEqual({ x: 2, y: 1 });
+    });
+    
+    it('should not queue updates unless enabled', async () => {
+      const { reconnectingClient } = await startReconnecting({});
+      
+      await expect(reconnectingClient.sendStateUpdate({ x: 1 })).rejects.toThrow('No active cast session');
+    });
+  });
+  
+  describe('reconnect', () => {
+    const createReconnectingClient = (resume: () => Promise<unknown>) => {
+      const host = createFakeHost({
+        features: ['session', 'stateUpdate', 'resumeSession'],
+        handlers: { CAST_RESUME_SESSION: resume }
+      });
+      const reconnectingClient = createCastClient({
+        reconnect: { maxAttempts: 3, initialDelay: 100, jitter: 0 },
+        offlineQueue: true,
+        bridge: host.bridge
+      });
+      return { reconnectingClient, host };
+    };
+    
+    const startSession = async (reconnectingClient: CastClient) => {
+      await reconnectingClient.signalReady({ gameId: 'test-game' });
+      await reconnectingClient.startCasting('device1', { initialState: { score: 0 } });
+    };
+    
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+    
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+    
+    it('should resume a lost session and restore the state', async () => {
+      const { reconnectingClient, host } = createReconnectingClient(() => Promise.resolve({
+        type: 'CAST_SESSION_UPDATED',
+        payload: { status: 'connected', deviceId: 'device1', deviceName: 'Test TV', sessionId: 'session-456', error: null }
+      }));
+      
+      await startSession(reconnectingClient);
+      await reconnectingClient.sendStateUpdate({ score: 5 });
+      host.updateSession('terminated');
+      
+      expect(reconnectingClient.getState()).toMatchObject({
+        isReconnecting: true,
+        isCasting: false,
+        sessionId: null,
+        deviceId: 'device1',
+        deviceName: 'Test TV'
+      });
+      
+      const queued = reconnectingClient.sendStateUpdate({ level: 2 });
+      await vi.advanceTimersByTimeAsync(100);
+      await queued;
+      
+      expect(host.sent('CAST_RESUME_SESSION')[0].payload).toEqual({
+        sessionId: 'session-123',
+        deviceId: 'device1'
+      });
+      expect(reconnectingClient.getState()).toMatchObject({
+        isReconnecting: false,
+        isCasting: true,
+        sessionId: 'session-456'
+      });
+      expect(host.sent('CAST_STATE_UPDATE').slice(-2).map((message) => message.payload)).toMatchObject([
+        { state: { score: 5 }, replace: true },
+        { state: { level: 2 } }
+      ]);
+    });
+    
+    it('should back off between attempts and give up after the last one', async () => {
+      const { reconnectingClient, host } = createReconnectingClient(() =>
+        Promise.reject(new CastKitError('SESSION_ERROR', 'Device unreachable'))
+      );
+      
+      await startSession(reconnectingClient);
+      host.updateSession('error');
+      
+      await vi.advanceTimersByTimeAsync(100);
+      expect(host.sent('CAST_RESUME_SESSION')).toHaveLength(1);
+      
+      await vi.advanceTimersByTimeAsync(199);
+      expect(host.sent('CAST_RESUME_SESSION')).toHaveLength(1);
+      
+      await vi.advanceTimersByTimeAsync(1 + 400);
+      expect(host.sent('CAST_RESUME_SESSION')).toHaveLength(3);
+      expect(reconnectingClient.getState()).toMatchObject({
+        isReconnecting: false,
+        deviceId: null,
+        error: { code: 'RECONNECT_FAILED' }
+      });
+    });
+    
+    it('should not resume a session stopped by the game', async () => {
+      const { reconnectingClient, host } = createReconnectingClient(() => Promise.reject(new Error('unexpected')));
+      
+      await startSession(reconnectingClient);
+      await reconnectingClient.stopCasting();
+      host.updateSession('terminated');
+      await vi.advanceTimersByTimeAsync(1000);
+      
+      expect(reconnectingClient.getState().isReconnecting).toBe(false);
+      expect(host.sent('CAST_RESUME_SESSION')).toHaveLength(0);
+    });
+    
+    it('should stop reconnecting when casting is stopped', async () => {
+      const { reconnectingClient, host } = createReconnectingClient(() => Promise.reject(new Error('unexpected')));
+      
+      await startSession(reconnectingClient);
+      host.updateSession('terminated');
+      await reconnectingClient.stopCasting();
+      await vi.advanceTimersByTimeAsync(1000);
+      
+      expect(reconnectingClient.getState()).toMatchObject({ isReconnecting: false, deviceId: null });
+      expect(host.sent('CAST_RESUME_SESSION')).toHaveLength(0);
+    });
+  });
+  
+  describe('persistence', () => {
+    const savedSession = {
+      sessionId: 'session-123',
+      deviceId: 'device1',
+      deviceName: 'Test TV',
+      gameState: { score: 5 },
+      seq: 4,
+      version: 0,
+      createdAt: 1000,
+      savedAt: 0
+    };
+    
+    const createPersistentClient = (sessionStatus = 'connected') => {
+      const host = createFakeHost({
+        features: ['session', 'stateUpdate', 'getSession'],
+        handlers: {
+          CAST_GET_SESSION: () => Promise.resolve({
+            type: 'CAST_SESSION_UPDATED',
+            payload: { status: sessionStatus, deviceId: 'device1', deviceName: 'Test TV', sessionId: 'session-123', error: null }
+          })
+        }
+      });
+      const persistentClient = createCastClient({ persistence: 'sessionStorage', bridge: host.bridge });
+      return { persistentClient, host };
+    };
+    
+    const loadSaved = () => JSON.parse(sessionStorage.getItem('cast-kit:session') ?? 'null');
+    
+    afterEach(() => {
+      sessionStorage.clear();
+    });
+    
+    it('should save the active session and the last state', async () => {
+      const { persistentClient } = createPersistentClient();
+      
+      await persistentClient.signalReady({ gameId: 'test-game' });
+      await persistentClient.startCasting('device1', { initialState: { score: 0 } });
+      await persistentClient.sendStateUpdate({ score: 5 });
+      
+      expect(loadSaved()).toMatchObject({
+        sessionId: 'session-123',
+        deviceId: 'device1',
+        deviceName: 'Test TV',
+        gameState: { score: 5 },
+        seq: 1
+      });
+      
+      await persistentClient.stopCasting();
+      
+      expect(loadSaved()).toBeNull();
+    });
+    
+    it('should reattach to a saved session the host still has', async () => {
+      sessionStorage.setItem('cast-kit:session', JSON.stringify(savedSession));
+      const { persistentClient, host } = createPersistentClient();
+      
+      await persistentClient.signalReady({ gameId: 'test-game' });
+      
+      expect(host.send).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'CAST_GET_SESSION',
+        payload: { sessionId: 'session-123', deviceId: 'device1' }
+      }));
+      expect(persistentClient.getState()).toMatchObject({
+        isCasting: true,
+        sessionId: 'session-123',
+        deviceName: 'Test TV'
+      });
+      expect(persistentClient.getSession()?.createdAt).toBe(1000);
+      
+      // Numbering continues where the reloaded page left off
+      await persistentClient.sendStateUpdate({ level: 2 });
+      expect(host.send).toHaveBeenLastCalledWith(expect.objectContaining({
+        type: 'CAST_STATE_UPDATE',
+        payload: expect.objectContaining({ seq: 5 })
+      }));
+      expect(loadSaved()).toMatchObject({ gameState: { score: 5, level: 2 }, seq: 5 });
+    });
+    
+    it('should restore the saved session through a bridge that passes replies to listeners', async () => {
+      const { WebViewBridge } = await vi.importActual<typeof import('../bridge/webview-bridge')>('../bridge/webview-bridge');
+      
+      let deliver: ((event: MessageEvent) => void) | null = null;
+      const reply = (request: CastRequestMessage, message: Record<string, unknown>) => {
+        queueMicrotask(() => {
+          deliver?.(new MessageEvent('message', {
+            data: { ...message, requestId: request.requestId, source: 'cast-kit-native' }
+          }));
+        });
+      };
+      
+      const bridge = new WebViewBridge({
+        transport: {
+          send: (message) => {
+            const request = message as CastRequestMessage;
+            
+            if (request.type === 'CAST_READY') {
+              reply(request, {
+                type: 'CAST_INITIALIZED',
+                payload: { available: true, protocolVersion: 1, features: ['session', 'stateUpdate', 'getSession'] }
+              });
+            } else if (request.type === 'CAST_GET_SESSION') {
+              reply(request, {
+                type: 'CAST_SESSION_UPDATED',
+                payload: { status: 'connected', deviceId: 'device1', deviceName: 'Test TV', sessionId: 'session-123', error: null }
+              });
+            }
+          },
+          listen: (handler) => {
+            deliver = handler;
+            return () => {
+              deliver = null;
+            };
+          }
+        }
+      });
+      const persistence = {
+        load: () => savedSession,
+        save: vi.fn(),
+        clear: vi.fn()
+      };
+      const persistentClient = createCastClient({ persistence, bridge });
+      const transitions: SessionTransition[] = [];
+      persistentClient.onSessionTransition((transition) => transitions.push(transition));
+      
+      await persistentClient.signalReady({ gameId: 'test-game' });
+      
+      // The session connects once, from the saved session and state
+      expect(transitions.map(({ to }) => to)).toEqual(['connected']);
+      expect(persistentClient.getSession()?.createdAt).toBe(1000);
+      expect(persistence.save.mock.calls.map(([saved]) => saved)).toEqual([
+        expect.objectContaining({ gameState: { score: 5 }, seq: 4, createdAt: 1000 })
+      ]);
+      
+      bridge.dispose();
+    });
+    
+    it('should forget a saved session that has ended', async () => {
+      sessionStorage.setItem('cast-kit:session', JSON.stringify(savedSession));
+      const { persistentClient } = createPersistentClient('terminated');
+      
+      await persistentClient.signalReady({ gameId: 'test-game' });
+      
+      expect(persistentClient.getState().isCasting).toBe(false);
+      expect(loadSaved()).toBeNull();
+    });
+  });
+  
+  describe('session status', () => {
+    it('should move through the session statuses', async () => {
+      const transitions: string[] = [];
+      client.onSessionTransition(({ from, to, event }) => transitions.push(`${from} -${event}-> ${to}`));
+      
+      await client.signalReady({ gameId: 'test-game' });
+      await client.scanForDevices();
+      await client.startCasting('device1');
+      
+      expect(client.getState()).toMatchObject({
+        sessionStatus: 'connected',
+        isCasting: true,
+        isConnecting: false
+      });
+      
+      await client.stopCasting();
+      
+      expect(client.getState().sessionStatus).toBe('idle');
+      expect(transitions).toEqual([
+        'idle -scan-> scanning',
+        'scanning -scanComplete-> idle',
+        'idle -connect-> connecting',
+        'connecting -connected-> connected',
+        'connected -end-> ending',
+        'ending -ended-> idle'
+      ]);
+    });
+    
+    it('should reject actions the session status does not allow', async () => {
+      await client.signalReady({ gameId: 'test-game' });
+      await client.startCasting('device1');
+      
+      await expect(client.scanForDevices()).rejects.toMatchObject({
+        code: 'INVALID_SESSION_STATE',
+        details: { status: 'connected' }
+      });
+      expect(client.getState().sessionStatus).toBe('connected');
+    });
+    
+    it('should clear the casting flags when the session fails', async () => {
+      const host = createFakeHost({
+        handlers: { CAST_START_SESSION: () => Promise.reject(new Error('Device unreachable')) }
+      });
+      client = createCastClient({ bridge: host.bridge });
+      await client.signalReady({ gameId: 'test-game' });
+      
+      await expect(client.startCasting('device1')).rejects.toThrow('Device unreachable');
+      
+      expect(client.getState()).toMatchObject({
+        sessionStatus: 'error',
+        isCasting: false,
+        isConnecting: false,
+        deviceId: null
+      });
+      
+      client.resetError();
+      
+      expect(client.getState()).toMatchObject({ sessionStatus: 'idle', error: null });
+    });
+    
+    it('should only keep an error while no session is underway', async () => {
+      const errors = vi.fn();
+      client.on('error', errors);
+      const hostError = new MessageEvent('message', {
+        data: { type: 'CAST_ERROR', payload: { code: 'DEVICE_LOST', message: 'Device went away' } }
+      });
+      
+      await client.signalReady({ gameId: 'test-game' });
+      for (const listener of eventListeners.message) {
+        listener(hostError);
+      }
+      
+      expect(client.getState().error).toMatchObject({ code: 'DEVICE_LOST' });
+      
+      await client.startCasting('device1');
+      await expect(client.scanForDevices()).rejects.toThrow();
+      
+      expect(client.getState()).toMatchObject({ sessionStatus: 'connected', isCasting: true, error: null });
+      expect(client.getState().session?.status).toBe('connected');
+      expect(errors.mock.calls.map(([{ error }]) => error.code)).toEqual(['DEVICE_LOST', 'INVALID_SESSION_STATE']);
+    });
+    
+    it('should keep calling transition listeners after one throws', async () => {
+      const listener = vi.fn();
+      client.onSessionTransition(() => {
+        throw new Error('Listener failed');
+      });
+      client.onSessionTransition(listener);
+      
+      await client.signalReady({ gameId: 'test-game' });
+      await client.startCasting('device1');
+      
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(client.getState()).toMatchObject({ sessionStatus: 'connected', isCasting: true });
+    });
+    
+    it('should stop notifying unsubscribed transition listeners', async () => {
+      const listener = vi.fn();
+      const unsubscribe = client.onSessionTransition(listener);
+      
+      unsubscribe();
+      await client.scanForDevices();
+      
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('session history', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(10000);
+    });
+    
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+    
+    it('should expose the current session', async () => {
+      await client.signalReady({ gameId: 'test-game' });
+      expect(client.getSession()).toBeNull();
+      
+      await client.startCasting('device1');
+      
+      expect(client.getSession()).toEqual({
+        sessionId: 'session-123',
+        status: 'connected',
+        deviceId: 'device1',
+        deviceName: 'Test TV',
+        createdAt: 10000
+      });
+      expect(client.getState().session).toEqual(client.getSession());
+    });
+    
+    it('should record how long a stopped session lasted', async () => {
+      await client.signalReady({ gameId: 'test-game' });
+      await client.startCasting('device1');
+      
+      vi.setSystemTime(70000);
+      await client.stopCasting();
+      
+      expect(client.getSession()).toBeNull();
+      expect(client.getState().sessionHistory).toEqual([{
+        sessionId: 'session-123',
+        deviceId: 'device1',
+        deviceName: 'Test TV',
+        createdAt: 10000,
+        endedAt: 70000,
+        duration: 60000,
+        endReason: 'stopped'
+      }]);
+    });
+    
+    it('should record why a session ended', async () => {
+      await client.signalReady({ gameId: 'test-game' });
+      await client.startCasting('device1');
+      await client.startCasting('device2');
+      emitSessionUpdate('terminated');
+      
+      expect(client.getState().sessionHistory.map((record) => record.endReason)).toEqual(['terminated', 'replaced']);
+    });
+    
+    it('should keep the newest sessions only', async () => {
+      const boundedClient = createCastClient({ sessionHistorySize: 1 });
+      
+      await boundedClient.signalReady({ gameId: 'test-game' });
+      await boundedClient.startCasting('device1');
+      await boundedClient.stopCasting();
+      
+      vi.setSystemTime(20000);
+      await boundedClient.startCasting('device1');
+      emitSessionUpdate('terminated');
+      
+      expect(boundedClient.getState().sessionHistory).toHaveLength(1);
+      expect(boundedClient.getState().sessionHistory[0]).toMatchObject({ createdAt: 20000, endReason: 'terminated' });
+    });
+  });
+  
+  describe('events', () => {
+    it('should tell a stopped session from a terminated one', async () => {
+      const started = vi.fn();
+      const ended = vi.fn();
+      client.on('sessionStarted', started);
+      client.on('sessionEnded', ended);
+      
+      await client.signalReady({ gameId: 'test-game' });
+      await client.startCasting('device1');
+      await client.stopCasting();
+      await client.startCasting('device1');
+      emitSessionUpdate('terminated');
+      
+      expect(started).toHaveBeenCalledTimes(2);
+      expect(started).toHaveBeenCalledWith({ session: expect.objectContaining({ sessionId: 'session-123', deviceId: 'device1' }) });
+      expect(ended.mock.calls.map(([event]) => event.reason)).toEqual(['stopped', 'terminated']);
+      expect(ended).toHaveBeenLastCalledWith({ reason: 'terminated', session: client.getState().sessionHistory[0] });
+    });
+    
+    it('should emit the devices reported by the host', async () => {
+      const devicesChanged = vi.fn();
+      client.on('devicesChanged', devicesChanged);
+      
+      await client.scanForDevices();
+      
+      expect(devicesChanged).toHaveBeenCalledWith({ devices: client.getState().devices });
+    });
+    
+    it('should emit the confirmed sequence numbers', async () => {
+      const stateConfirmed = vi.fn();
+      client.on('stateConfirmed', stateConfirmed);
+      
+      await client.signalReady({ gameId: 'test-game' });
+      await client.startCasting('device1');
+      await client.sendStateUpdate({ score: 1 });
+      await client.sendStateUpdate({ score: 2 });
+      
+      expect(stateConfirmed.mock.calls).toEqual([[{ seq: 1 }], [{ seq: 2 }]]);
+    });
+    
+    it('should emit every error set in the state', async () => {
+      const errors = vi.fn();
+      client.on('error', errors);
+      
+      await client.signalReady({ gameId: 'test-game' });
+      await client.startCasting('device1');
+      await expect(client.scanForDevices()).rejects.toThrow();
+      await expect(client.scanForDevices()).rejects.toThrow();
+      
+      expect(errors).toHaveBeenCalledTimes(2);
+      expect(errors).toHaveBeenLastCalledWith({ error: expect.objectContaining({ code: 'INVALID_SESSION_STATE' }) });
+    });
+    
+    it('should report an error answering a request once', async () => {
+      const errors = vi.fn();
+      const host = createFakeHost({
+        handlers: {
+          // Bridges reject the request and pass the reply on to their listeners
+          CAST_START_SESSION: (message) => {
+            const payload = { code: 'DEVICE_BUSY', message: 'Device is already casting' };
+            host.receive({ type: 'CAST_ERROR', payload, requestId: message.requestId });
+            return Promise.reject(new CastKitError(payload.code, payload.message));
+          }
+        }
+      });
+      client = createCastClient({ bridge: host.bridge });
+      client.on('error', errors);
+      
+      await client.signalReady({ gameId: 'test-game' });
+      await expect(client.startCasting('device1')).rejects.toThrow('Device is already casting');
+      
+      expect(errors).toHaveBeenCalledTimes(1);
+      expect(client.getState().error).toMatchObject({ code: 'DEVICE_BUSY' });
+    });
+    
+    it('should keep calling listeners after one throws', async () => {
+      const listener = vi.fn();
+      client.on('devicesChanged', () => {
+        throw new Error('Listener failed');
+      });
+      const unsubscribe = client.on('devicesChanged', listener);
+      
+      await client.scanForDevices();
+      unsubscribe();
+      await client.scanForDevices();
+      
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should pass messages from the receiver to its handlers', () => {
+      const handler = vi.fn();
+      const removeHandler = client.onReceiverMessage(handler);
+      const receive = (payload: unknown) => {
+        const event = new MessageEvent('message', { data: { type: 'CAST_RECEIVER_MESSAGE', payload } });
+        
+        for (const listener of eventListeners.message) {
+          listener(event);
+        }
+      };
+      
+      receive({ type: 'animationFinished', payload: { id: 'intro' }, timestamp: 10 });
+      receive({ payload: { id: 'intro' } });
+      removeHandler();
+      receive({ type: 'animationFinished', payload: {} });
+      
+      expect(handler.mock.calls).toEqual([[{ type: 'animationFinished', payload: { id: 'intro' }, timestamp: 10 }]]);
+    });
+  });
+  
+  it('should keep the error code reported by the host', async () => {
+    const host = createFakeHost({
+      handlers: {
+        CAST_START_SESSION: () => Promise.reject(
+          new CastKitError('DEVICE_BUSY', 'Device is already casting', { deviceId: 'device1' })
+        )
+      }
+    });
+    client = createCastClient({ bridge: host.bridge });
+    
+    await expect(client.startCasting('device1')).rejects.toBeInstanceOf(CastKitError);
+    
+    const state = client.getState();
+    expect(state.error).toEqual({
+      code: 'DEVICE_BUSY',
+      message: 'Device is already casting',
+      details: { deviceId: 'device1' }
+    });
+  });
+  
+  it('should use a bridge passed in the options', async () => {
+    const bridge = {
+      sendMessage: vi.fn(),
+      sendMessageWithResponse: vi.fn().mockResolvedValue({
+        type: 'CAST_INITIALIZED',
+        payload: { available: true, devices: [] }
+      }),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn()
+    };
+    
+    const customClient = createCastClient({ bridge });
+    await customClient.signalReady({ gameId: 'test-game' });
+    
+    expect(bridge.addEventListener).toHaveBeenCalledWith('message', expect.any(Function));
+    expect(bridge.sendMessageWithResponse).toHaveBeenCalled();
+    expect(customClient.getState().isAvailable).toBe(true);
+  });
+  
+  describe('dispose', () => {
+    it('should tear down the bridge and its listeners', async () => {
+      const bridge = vi.mocked(createWebViewBridge).mock.results.at(-1)?.value;
+      bridge.dispose = vi.fn();
+      const listener = vi.fn();
+      client.subscribe(listener);
+      
+      await client.dispose();
+      client.resetError();
+      
+      expect(bridge.removeEventListener).toHaveBeenCalledWith('message', expect.any(Function));
+      expect(bridge.dispose).toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+      await expect(client.signalReady({ gameId: 'test-game' })).rejects.toMatchObject({ code: 'CLIENT_DISPOSED' });
+    });
+    
+    it('should reject queued state updates', async () => {
+      const throttledClient = createCastClient({ stateUpdates: { mode: 'trailing', maxRate: 1 } });
+      await throttledClient.signalReady({ gameId: 'test-game' });
+      await throttledClient.startCasting('device1');
+      
+      const update = throttledClient.sendStateUpdate({ score: 1 });
+      await throttledClient.dispose();
+      
+      await expect(update).rejects.toMatchObject({ code: 'CLIENT_DISPOSED' });
+    });
+    
+    it('should leave the session running unless asked to end it', async () => {
+      const host = createFakeHost();
+      const endingClient = createCastClient({ bridge: host.bridge });
+      await endingClient.signalReady({ gameId: 'test-game' });
+      await endingClient.startCasting('device1');
+      
+      await endingClient.dispose({ endSession: true });
+      
+      expect(host.sent('CAST_END_SESSION')).toHaveLength(1);
+      
+      const keptHost = createFakeHost();
+      const keptClient = createCastClient({ bridge: keptHost.bridge });
+      await keptClient.signalReady({ gameId: 'test-game' });
+      await keptClient.startCasting('device1');
+      keptHost.send.mockClear();
+      
+      await keptClient.dispose();
+      
+      expect(keptHost.send).not.toHaveBeenCalled();
+    });
+    
+    it('should not dispose of a bridge passed in the options', async () => {
+      const bridge = {
+        sendMessage: vi.fn(),
+        sendMessageWithResponse: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispose: vi.fn()
+      };
+      
+      await createCastClient({ bridge }).dispose();
+      
+      expect(bridge.removeEventListener).toHaveBeenCalledWith('message', bridge.addEventListener.mock.calls[0][1]);
+      expect(bridge.dispose).not.toHaveBeenCalled();
+    });
+    
+    it('should reject pending requests on a bridge passed in the options', async () => {
+      const host = createFakeHost({
+        handlers: {
+          CAST_START_SESSION: () => new Promise(() => {})
+        }
+      });
+      const ownedClient = createCastClient({ bridge: host.bridge });
+      await ownedClient.signalReady({ gameId: 'test-game' });
+      
+      const casting = ownedClient.startCasting('device1');
+      await ownedClient.dispose();
+      
+      await expect(casting).rejects.toMatchObject({ code: 'CLIENT_DISPOSED' });
+      expect(host.bridge.dispose).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -5,14 +5,34 @@
  */
 import {
   createMessage,
+  negotiateProtocol,
+  PROTOCOL_VERSION,
+  CAST_FEATURES,
+  CastFeature,
   CastReadyMessage, 
+  CastInitializedMessage,
   CastScanDevicesMessage,
   CastStartSessionMessage,
   CastEndSessionMessage,
   CastStateUpdateMessage,
+  CastStatePatchMessage,
+  CastStateConfirmedMessage,
+  CastResumeSessionMessage,
+  CastSessionUpdatedMessage,
+  CastGetSessionMessage,
+  CastRequestMessage,
+  CastResponseMessage,
+  readCastReceiverMessage,
 } from '../bridge/protocol';
-import { createWebViewBridge, isInOpenGameApp } from '../bridge/webview-bridge';
+import { createBackendBridge, detectBackends } from '../bridge/environment';
+import type { CastEnvironment } from '../bridge/environment';
 import type { Bridge } from '../bridge/webview-bridge';
+import { CastKitError } from './errors';
+import { createPatch } from './json-patch';
+import { StateUpdateScheduler } from './scheduler';
+import { OfflineQueue } from './offline-queue';
+import { resolvePersistence } from './persistence';
+import { isSessionActive, SessionMachine, sessionEndReason, sessionFlags } from './session-machine';
 import { 
   StateManager, 
   initialState 
@@ -23,7 +43,21 @@ import {
   SignalReadyParams,
   CastOptions,
   CastError,
-  CastClient
+  CastClient,
+  StateUpdateStats,
+  ReconnectOptions,
+  CastPersistence,
+  PersistedSession,
+  SessionEvent,
+  SessionTransition,
+  CastSession,
+  SessionEndReason,
+  CastSessionRecord,
+  CastClientEvent,
+  CastClientEvents,
+  CastClientEventListener,
+  DisposeOptions,
+  ReceiverMessageEvent
 } from './types';
 
 // Export the CastClientOptions type for external use
@@ -34,8 +68,41 @@ export type { CastClientOptions, CastClient };
  */
 const DEFAULT_OPTIONS: CastClientOptions = {
   debug: false,
+  stateSync: 'snapshot',
+  sessionHistorySize: 10,
 };
 
+/**
+ * Default reconnect policy
+ */
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  backoffFactor: 2,
+  jitter: 0.5,
+};
+
+/**
+ * Merge a partial state update into a state
+ * 
+ * Keys set to undefined are removed.
+ */
+function mergeState(
+  state: Record<string, unknown>,
+  partial: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...state, ...partial };
+  
+  for (const key of Object.keys(partial)) {
+    if (partial[key] === undefined) {
+      Reflect.deleteProperty(merged, key);
+    }
+  }
+  
+  return merged;
+}
+
 // Create a type that ensures CastState can be used with StateManager
 type ManagedCastState = CastState;
 
@@ -48,24 +115,98 @@ export class CastKitClient implements CastClient {
   private logs: Array<{timestamp: number, type: string, message: string, data?: unknown}> = [];
   private options: Required<CastClientOptions>;
   
+  // Status of the session and the listeners to its changes
+  private sessionMachine = new SessionMachine();
+  private transitionListeners = new Set<(transition: SessionTransition) => void>();
+  
+  // Listeners to the client events
+  private eventListeners = new Map<CastClientEvent, Set<CastClientEventListener<never>>>();
+  
+  // Game state with every update merged in, and the sequence number of the last update
+  private gameState: Record<string, unknown> = {};
+  private lastSentSeq = 0;
+  
+  // Game state the receiver is known to have, and its version
+  private confirmedState: Record<string, unknown> = {};
+  private stateVersion = 0;
+  private needsSnapshot = false;
+  
+  // Patches are sent one at a time, so each one applies to the last
+  private stateUpdates: Promise<void> = Promise.resolve();
+  
+  // Merges and rate limits state updates before they are sent
+  private scheduler: StateUpdateScheduler;
+  
+  // Holds state updates while the session is reconnecting, if enabled, and
+  // counts the ones it rejected this session
+  private offlineQueue: OfflineQueue | null;
+  private droppedUpdates = 0;
+  
+  // Reconnect policy, the session to resume when it is lost and the running attempts
+  private reconnectPolicy: Required<ReconnectOptions> | null;
+  private lastSession: { sessionId: string; deviceId: string } | null = null;
+  private reconnectRun = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // Where the session is saved across page reloads, if enabled
+  private persistence: CastPersistence | null;
+  
+  // Whether the client created its bridge, and how to stop listening to it
+  private ownsBridge: boolean;
+  private stopListening: (() => void) | null = null;
+  private disposed = false;
+  
+  // Rejects the requests still waiting for the host when the client is disposed
+  private pendingRequests = new Set<(error: CastKitError) => void>();
+  
+  // Requests whose replies only their caller handles, the bridge also passes
+  // replies to the listeners before the request resolves
+  private callerReplies = new Set<string>();
+  
   constructor(options: CastClientOptions = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options } as Required<CastClientOptions>;
+    this.scheduler = new StateUpdateScheduler(
+      (state) => this.dispatchStateUpdate(state),
+      options.stateUpdates
+    );
+    this.offlineQueue = options.offlineQueue
+      ? new OfflineQueue(options.offlineQueue === true ? {} : options.offlineQueue)
+      : null;
+    this.reconnectPolicy = options.reconnect
+      ? { ...DEFAULT_RECONNECT, ...(options.reconnect === true ? {} : options.reconnect) }
+      : null;
+    this.persistence = resolvePersistence(options.persistence);
     
-    // Initialize the bridge
-    this.bridge = createWebViewBridge({
-      debug: this.options.debug,
-    });
+    // Pick the backend and initialize its bridge
+    const environment = this.selectBackend(options);
+    this.ownsBridge = !options.bridge;
+    this.bridge = options.bridge ?? createBackendBridge(
+      environment.backend === 'custom' ? null : environment.backend,
+      options
+    );
     
     // Initialize the state manager
-    this.stateManager = new StateManager<ManagedCastState>(initialState as unknown as ManagedCastState);
+    this.stateManager = new StateManager<ManagedCastState>({
+      ...initialState,
+      environment,
+    } as unknown as ManagedCastState);
     
     // Setup event listeners
     this.setupEventListeners();
     
+    // Report every new error, wherever it is set
+    let lastError: CastError | null = null;
+    this.stateManager.subscribe(({ error }) => {
+      if (error && error !== lastError) {
+        this.emit('error', { error });
+      }
+      lastError = error;
+    });
+    
     // Log initialization
     this.log('info', 'CastKitClient initialized', { 
       options: this.options,
-      isInOpenGameApp: isInOpenGameApp(),
+      environment,
     });
   }
   
@@ -83,12 +224,60 @@ export class CastKitClient implements CastClient {
     return this.stateManager.subscribe(listener as (state: ManagedCastState) => void);
   }
   
+  /**
+   * Get the current cast session, if any
+   */
+  public getSession(): CastSession | null {
+    const { session } = this.stateManager.getState();
+    return session ? { ...session } : null;
+  }
+  
+  /**
+   * Subscribe to session status changes
+   */
+  public onSessionTransition(listener: (transition: SessionTransition) => void): () => void {
+    this.transitionListeners.add(listener);
+    
+    return () => {
+      this.transitionListeners.delete(listener);
+    };
+  }
+  
+  /**
+   * Listen to a client event, returns a function that removes the listener
+   */
+  public on<E extends CastClientEvent>(event: E, listener: CastClientEventListener<E>): () => void {
+    let listeners = this.eventListeners.get(event);
+    
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(event, listeners);
+    }
+    
+    listeners.add(listener);
+    
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+  
+  /**
+   * Handle messages sent by the receiver page, returns a function that removes the handler
+   */
+  public onReceiverMessage(handler: (message: ReceiverMessageEvent) => void): () => void {
+    return this.on('receiverMessage', handler);
+  }
+  
   /**
    * Signal that the game is ready to cast
    */
   public async signalReady(params: SignalReadyParams): Promise<void> {
+    this.requireActive('signal readiness');
+    
     this.log('info', 'Signaling ready to cast', params);
     
+    let response: CastInitializedMessage;
+    
     try {
       // Create the ready message
       const message: CastReadyMessage = createMessage({
@@ -98,34 +287,74 @@ export class CastKitClient implements CastClient {
           roomCode: params.roomCode,
           broadcastUrl: params.broadcastUrl,
           capabilities: params.capabilities,
+          protocolVersion: PROTOCOL_VERSION,
+          features: [...CAST_FEATURES],
         },
       });
       
       // Send the message
-      const response = await this.bridge.sendMessageWithResponse(message);
+      response = await this.request(message);
+    } catch (error) {
+      this.handleError('Failed to signal readiness', error);
+      throw error;
+    }
+    
+    // Negotiate the protocol with the host
+    const negotiation = negotiateProtocol(response.payload);
+    
+    this.log('info', 'Protocol negotiated', negotiation);
+    
+    if (!negotiation.compatible) {
+      const error = new CastKitError(
+        'PROTOCOL_MISMATCH',
+        `Host requires a newer protocol than version ${PROTOCOL_VERSION}`,
+        { hostProtocolVersion: negotiation.protocolVersion }
+      );
       
-      // Handle the response
-      this.log('info', 'Cast availability', { available: response.payload?.available });
+      this.log('error', error.message, error.details);
       
-      // Update state
       this.stateManager.setState({
-        isAvailable: response.payload?.available ?? false,
-        devices: response.payload?.devices || [],
+        isAvailable: false,
+        protocolVersion: negotiation.protocolVersion,
+        features: [],
+        error: error.toCastError(),
       });
-    } catch (error) {
-      this.handleError('Failed to signal readiness', error);
+      
       throw error;
     }
+    
+    // Handle the response
+    this.log('info', 'Cast availability', { available: response.payload.available });
+    
+    // Update state
+    this.stateManager.setState({
+      isAvailable: response.payload.available,
+      devices: response.payload.devices || [],
+      protocolVersion: negotiation.protocolVersion,
+      features: negotiation.features,
+    });
+    
+    // Reattach to a session that survived a page reload
+    await this.reattachSession();
   }
   
   /**
    * Scan for available cast devices
    */
   public async scanForDevices(): Promise<void> {
+    this.requireActive('scan for devices');
+    
+    // Hosts without scanning only report devices through CAST_INITIALIZED
+    if (!this.supportsFeature('scanDevices')) {
+      this.log('warn', 'Host does not support device scanning, keeping known devices');
+      return;
+    }
+    
+    this.requireTransition('scan', 'scan for devices');
+    
     this.log('info', 'Scanning for cast devices');
     
-    // Update state
-    this.stateManager.setState({ isScanning: true });
+    this.transition('scan');
     
     try {
       // Create the scan message
@@ -135,12 +364,11 @@ export class CastKitClient implements CastClient {
       });
       
       // Send the message
-      await this.bridge.sendMessageWithResponse(message);
+      await this.request(message);
       
       // Note: Devices will be updated through event listeners
     } catch (error) {
-      // Update state
-      this.stateManager.setState({ isScanning: false });
+      this.transition('fail');
       
       this.handleError('Failed to scan for devices', error);
       throw error;
@@ -151,13 +379,26 @@ export class CastKitClient implements CastClient {
    * Start casting to a device
    */
   public async startCasting(deviceId: string, options: CastOptions = {}): Promise<void> {
+    this.requireActive('start casting');
+    this.requireFeature('session', 'start casting');
+    this.requireTransition('connect', 'start casting');
+    
     this.log('info', 'Starting cast session', { deviceId, options });
     
-    // Update state
-    this.stateManager.setState({
-      isConnecting: true,
-      deviceId,
-    });
+    // Casting to a device replaces any session being resumed
+    this.stopReconnecting();
+    this.transition('connect', { deviceId });
+    
+    // The receiver starts from the initial state
+    this.gameState = { ...options.initialState };
+    this.confirmedState = { ...options.initialState };
+    this.stateVersion = 0;
+    this.needsSnapshot = false;
+    this.lastSentSeq = 0;
+    this.stateManager.setState({ lastConfirmedSeq: null, inFlightSeqs: 0 });
+    this.scheduler.reset(new Error('Cast session restarted'));
+    this.offlineQueue?.clear(new Error('Cast session restarted'));
+    this.droppedUpdates = 0;
     
     try {
       // Create the start session message
@@ -166,19 +407,16 @@ export class CastKitClient implements CastClient {
         payload: {
           deviceId,
           initialState: options.initialState || {},
+          senderName: options.senderName,
         },
       });
       
       // Send the message
-      await this.bridge.sendMessageWithResponse(message);
+      await this.request(message);
       
       // Note: Session status will be updated through event listeners
     } catch (error) {
-      // Update state
-      this.stateManager.setState({
-        isConnecting: false,
-        deviceId: null,
-      });
+      this.transition('fail', { deviceId: null });
       
       this.handleError('Failed to start casting', error);
       throw error;
@@ -189,15 +427,36 @@ export class CastKitClient implements CastClient {
    * Stop the current cast session
    */
   public async stopCasting(): Promise<void> {
-    const { sessionId } = this.stateManager.getState();
+    const { sessionId, isReconnecting } = this.stateManager.getState();
+    
+    // Give up on a lost session instead of ending it
+    if (isReconnecting) {
+      this.log('info', 'Stopping reconnection', this.lastSession);
+      
+      this.forgetSession();
+      this.stopReconnecting();
+      this.transition('ended', {
+        deviceId: null,
+        deviceName: null,
+      });
+      this.offlineQueue?.clear(new Error('No active cast session'));
+      return;
+    }
     
     if (!sessionId) {
       this.log('warn', 'No active cast session to stop');
       return;
     }
     
+    this.requireFeature('session', 'stop casting');
+    this.requireTransition('end', 'stop casting');
+    
     this.log('info', 'Stopping cast session', { sessionId });
     
+    // The session is ended on purpose, don't try to resume it
+    this.forgetSession();
+    this.transition('end');
+    
     try {
       // Create the end session message
       const message: CastEndSessionMessage = createMessage({
@@ -206,19 +465,24 @@ export class CastKitClient implements CastClient {
       });
       
       // Send the message
-      await this.bridge.sendMessageWithResponse(message);
+      await this.request(message);
       
       // Update state immediately
-      this.stateManager.setState({
-        isCasting: false,
-        isConnecting: false,
+      this.transition('ended', {
         deviceId: null,
         deviceName: null,
         sessionId: null,
       });
+      this.offlineQueue?.clear(new Error('No active cast session'));
       
       // Note: Session status will also be updated through event listeners
     } catch (error) {
+      this.transition('fail', {
+        deviceId: null,
+        deviceName: null,
+        sessionId: null,
+      });
+      
       this.handleError('Failed to stop casting', error);
       throw error;
     }
@@ -226,33 +490,75 @@ export class CastKitClient implements CastClient {
   
   /**
    * Send a state update to the cast session
+   * 
+   * The update is merged into the game state, keys set to undefined are
+   * removed. With the 'patch' state sync the receiver gets a JSON Patch
+   * against the last confirmed state instead of the update itself.
+   * 
+   * Depending on the stateUpdates options the update may be merged with
+   * other updates and sent later, the promise resolves once it is confirmed.
+   * With the offlineQueue option, updates made while the session is
+   * reconnecting are queued and sent once it is connected again.
    */
   public async sendStateUpdate(state: Record<string, unknown>): Promise<void> {
-    const { sessionId } = this.stateManager.getState();
+    this.requireActive('send state updates');
     
-    if (!sessionId) {
-      this.log('warn', 'No active cast session to update');
-      throw new Error('No active cast session');
+    const queue = this.queueWhileReconnecting();
+    
+    if (!queue) {
+      this.requireSession();
     }
     
+    this.requireFeature('stateUpdate', 'send state updates');
+    
+    if (queue) {
+      return this.enqueueOffline(queue, state);
+    }
+    
+    return this.scheduler.schedule(state);
+  }
+  
+  /**
+   * Get the state update scheduler statistics
+   */
+  public getUpdateStats(): StateUpdateStats {
+    const stats = this.scheduler.getStats();
+    
+    return {
+      ...stats,
+      queued: stats.queued + (this.offlineQueue?.size ?? 0),
+      dropped: this.droppedUpdates,
+    };
+  }
+  
+  /**
+   * Send a state update, or several merged ones, to the cast session
+   */
+  private async dispatchStateUpdate(state: Record<string, unknown>): Promise<void> {
+    // The session may have dropped while the update was waiting to be sent
+    const queue = this.queueWhileReconnecting();
+    
+    if (queue) {
+      return this.enqueueOffline(queue, state);
+    }
+    
+    const sessionId = this.requireSession();
+    
     this.log('info', 'Sending state update', { sessionId });
     
-    try {
-      // Create the message
-      const message: CastStateUpdateMessage = createMessage({
-        type: 'CAST_STATE_UPDATE',
-        payload: {
-          state,
-          timestamp: Date.now(),
-        },
-      });
-      
-      // Send the message
-      await this.bridge.sendMessageWithResponse(message);
-    } catch (error) {
-      this.handleError('Failed to send state update', error);
-      throw error;
+    this.gameState = mergeState(this.gameState, state);
+    const seq = this.nextSeq();
+    this.persistSession();
+    
+    if (this.options.stateSync !== 'patch') {
+      return this.deliverStateUpdate(state, seq);
     }
+    
+    const nextState = this.gameState;
+    const update = this.stateUpdates.then(() => this.deliverStatePatch(nextState, seq));
+    this.stateUpdates = update.catch(() => {});
+    
+    return update;
   }
   
   /**
@@ -260,6 +566,56 @@ export class CastKitClient implements CastClient {
    */
   public resetError(): void {
     this.stateManager.setState({ error: null });
+    
+    // A failed session is over once its error is cleared
+    if (this.sessionMachine.can('reset')) {
+      this.transition('reset');
+    }
+  }
+  
+  /**
+   * Stop the client: tear down the bridge, reject pending requests and
+   * remove every listener
+   * 
+   * A bridge passed in the options belongs to the caller, the client only
+   * stops listening to it. The session keeps running on the TV unless
+   * endSession is set, so a persisted session can be reattached to.
+   */
+  public async dispose(options: DisposeOptions = {}): Promise<void> {
+    if (this.disposed) return;
+    
+    this.disposed = true;
+    this.log('info', 'Disposing cast client', options);
+    
+    if (options.endSession) {
+      try {
+        await this.stopCasting();
+      } catch (error) {
+        this.log('warn', 'Failed to end the cast session', error);
+      }
+    }
+    
+    const error = new CastKitError('CLIENT_DISPOSED', 'Cast client disposed');
+    
+    this.stopReconnecting();
+    this.scheduler.reset(error);
+    this.offlineQueue?.clear(error);
+    
+    for (const reject of this.pendingRequests) {
+      reject(error);
+    }
+    this.pendingRequests.clear();
+    
+    this.stopListening?.();
+    this.stopListening = null;
+    
+    if (this.ownsBridge) {
+      this.bridge.dispose?.();
+    }
+    
+    this.stateManager.dispose();
+    this.transitionListeners.clear();
+    this.eventListeners.clear();
   }
   
   /**
@@ -273,22 +629,29 @@ export class CastKitClient implements CastClient {
    * Set up event listeners for bridge communication
    */
   private setupEventListeners(): void {
-    this.bridge.addEventListener('message', (event: Event) => {
+    const listener = (event: Event) => {
       const messageEvent = event as MessageEvent;
       const message = messageEvent.data;
       
       // Ignore invalid messages
       if (!message || !message.type) return;
       
+      if (message.requestId && this.callerReplies.has(message.requestId)) return;
+      
       switch (message.type) {
         case 'CAST_DEVICES_UPDATED':
           this.log('info', 'Devices updated', message.payload);
           
           // Update state with devices
           this.stateManager.setState({
-            isScanning: false,
             devices: message.payload.devices || [],
           });
+          this.emit('devicesChanged', { devices: this.stateManager.getState().devices });
+          
+          // Devices are also reported outside of scans
+          if (this.sessionMachine.can('scanComplete')) {
+            this.transition('scanComplete');
+          }
           break;
           
         case 'CAST_SESSION_UPDATED':
@@ -296,70 +659,734 @@ export class CastKitClient implements CastClient {
           
           // Handle different session statuses
           if (message.payload.status === 'connected') {
-            // Update state for connected session
-            this.stateManager.setState({
-              isConnecting: false,
-              isCasting: true,
-              deviceId: message.payload.deviceId,
-              deviceName: message.payload.deviceName,
-              sessionId: message.payload.sessionId,
+            this.handleSessionConnected(message.payload);
+          } else if (message.payload.status === 'connecting') {
+            // The session can't take updates until it is connected again
+            this.transition('connecting', {
+              sessionId: null,
             });
           } else if (message.payload.status === 'terminated') {
+            if (this.startReconnecting()) break;
+            
             // Update state for terminated session
-            this.stateManager.setState({
-              isCasting: false,
-              isConnecting: false,
+            this.transition('ended', {
               deviceId: null,
               deviceName: null,
               sessionId: null,
             });
+            
+            this.forgetSession();
+            this.offlineQueue?.clear(new Error('No active cast session'));
           } else if (message.payload.status === 'error') {
+            if (this.startReconnecting()) break;
+            
             // Update state for error
-            this.stateManager.setState({
-              isCasting: false,
-              isConnecting: false,
+            const error = {
+              code: 'SESSION_ERROR',
+              message: message.payload.error || 'Session error',
+            };
+            const failed = this.transition('fail', {
               deviceId: null,
               deviceName: null,
               sessionId: null,
-              error: {
-                code: 'SESSION_ERROR',
-                message: message.payload.error || 'Session error',
-              },
+              error,
             });
+            
+            // Report the error even when no session was in progress
+            if (!failed) {
+              this.setError(error);
+            }
+            
+            this.forgetSession();
+            this.offlineQueue?.clear(new Error('No active cast session'));
+          }
+          break;
+          
+        case 'CAST_RECEIVER_MESSAGE': {
+          const received = readCastReceiverMessage(message);
+          
+          if (!received) {
+            this.log('warn', 'Ignoring invalid receiver message', message.payload);
+            break;
+          }
+          
+          this.log('info', 'Receiver message', received.payload);
+          this.emit('receiverMessage', received.payload);
+          break;
+        }
+          
+        case 'CAST_STATE_RESYNC':
+          // The receiver couldn't apply a patch and waits for a snapshot
+          if (this.stateManager.getState().sessionId) {
+            this.log('warn', 'Receiver is out of sync, sending a snapshot', message.payload);
+            void this.restoreState();
           }
           break;
           
         case 'CAST_ERROR':
+          // Errors answering a request reject that request, whose caller reports them
+          if (message.requestId) break;
+          
           this.log('error', 'Error from cast service', message.payload);
           
-          // Update state with error
-          this.stateManager.setState({
-            error: {
-              code: message.payload.code,
-              message: message.payload.message,
-              details: message.payload.details,
-            },
+          this.setError({
+            code: message.payload.code,
+            message: message.payload.message,
+            details: message.payload.details,
           });
           break;
       }
+    };
+    
+    this.bridge.addEventListener('message', listener);
+    this.stopListening = () => this.bridge.removeEventListener('message', listener);
+  }
+  
+  /**
+   * Update the state for a connected session
+   */
+  private handleSessionConnected(payload: CastSessionUpdatedMessage['payload'], createdAt?: number): void {
+    const wasReconnecting = this.sessionMachine.status === 'reconnecting';
+    const { session } = this.stateManager.getState();
+    
+    const connected = this.transition('connected', {
+      deviceId: payload.deviceId,
+      deviceName: payload.deviceName,
+      sessionId: payload.sessionId,
+      session: {
+        sessionId: payload.sessionId,
+        status: 'connected',
+        deviceId: payload.deviceId,
+        deviceName: payload.deviceName,
+        // A resumed session keeps its start time
+        createdAt: createdAt ?? (session?.deviceId === payload.deviceId ? session.createdAt : Date.now()),
+      },
+    });
+    
+    if (!connected) return;
+    
+    this.stopReconnecting();
+    this.lastSession = { sessionId: payload.sessionId, deviceId: payload.deviceId };
+    this.persistSession();
+    
+    // Send the updates made while reconnecting, after the restored state
+    const restored = wasReconnecting ? this.restoreState() : Promise.resolve();
+    
+    restored.then(() => {
+      this.offlineQueue?.flush((state) => this.scheduler.schedule(state));
+    });
+  }
+  
+  /**
+   * Reattach to the saved session if the host still has it
+   */
+  private async reattachSession(): Promise<void> {
+    if (!this.persistence || !this.supportsFeature('getSession')) return;
+    
+    let saved: PersistedSession | null;
+    
+    try {
+      saved = await this.persistence.load();
+    } catch (error) {
+      this.log('warn', 'Failed to load the saved cast session', error);
+      return;
+    }
+    
+    if (!saved || typeof saved.sessionId !== 'string' || typeof saved.deviceId !== 'string') return;
+    
+    this.log('info', 'Checking saved cast session', { sessionId: saved.sessionId, deviceId: saved.deviceId });
+    
+    try {
+      const message: CastGetSessionMessage = createMessage({
+        type: 'CAST_GET_SESSION',
+        payload: {
+          sessionId: saved.sessionId,
+          deviceId: saved.deviceId,
+        },
+      });
+      
+      // Connecting before the saved state is restored would save an empty state
+      const response = await this.requestForCaller(message);
+      
+      if (response.payload.status !== 'connected') {
+        this.log('info', 'Saved cast session has ended', response.payload);
+        this.forgetSession();
+        return;
+      }
+      
+      // Continue where the game left off, the receiver may have missed the
+      // last updates so the next one is a snapshot
+      this.gameState = { ...saved.gameState };
+      this.confirmedState = { ...saved.gameState };
+      this.stateVersion = saved.version ?? 0;
+      this.lastSentSeq = saved.seq ?? 0;
+      this.needsSnapshot = true;
+      
+      this.handleSessionConnected(response.payload, saved.createdAt);
+    } catch (error) {
+      this.log('warn', 'Failed to check the saved cast session', error);
+    }
+  }
+  
+  /**
+   * Save the active session, or remove the saved one when there is none
+   */
+  private persistSession(): void {
+    if (!this.persistence) return;
+    
+    const { deviceName, session } = this.stateManager.getState();
+    
+    try {
+      const saved = this.lastSession
+        ? this.persistence.save({
+          ...this.lastSession,
+          deviceName,
+          gameState: this.gameState,
+          seq: this.lastSentSeq,
+          version: this.stateVersion,
+          createdAt: session?.createdAt ?? Date.now(),
+          savedAt: Date.now(),
+        })
+        : this.persistence.clear();
+      
+      Promise.resolve(saved).catch((error) => {
+        this.log('warn', 'Failed to save the cast session', error);
+      });
+    } catch (error) {
+      this.log('warn', 'Failed to save the cast session', error);
+    }
+  }
+  
+  /**
+   * Forget the session so it isn't resumed or reattached to
+   */
+  private forgetSession(): void {
+    this.lastSession = null;
+    this.persistSession();
+  }
+  
+  /**
+   * Start trying to resume the lost session, if the reconnect policy allows
+   * 
+   * Returns whether the client is reconnecting.
+   */
+  private startReconnecting(): boolean {
+    const session = this.lastSession;
+    
+    if (this.sessionMachine.status === 'reconnecting') return true;
+    if (!this.reconnectPolicy || !session || !this.supportsFeature('resumeSession')) return false;
+    if (!this.sessionMachine.can('connectionLost')) return false;
+    
+    this.log('warn', 'Cast session lost, reconnecting', session);
+    
+    // Keep the device so the game can show what it is reconnecting to
+    this.transition('connectionLost', {
+      sessionId: null,
+    });
+    
+    this.reconnect(session, ++this.reconnectRun);
+    return true;
+  }
+  
+  /**
+   * Stop any running attempts to resume the session
+   */
+  private stopReconnecting(): void {
+    this.reconnectRun++;
+    
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+  
+  /**
+   * Try to resume a session with backoff until it succeeds or the attempts run out
+   */
+  private async reconnect(session: { sessionId: string; deviceId: string }, run: number): Promise<void> {
+    const policy = this.reconnectPolicy as Required<ReconnectOptions>;
+    
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      const delay = Math.min(policy.maxDelay, policy.initialDelay * policy.backoffFactor ** (attempt - 1));
+      
+      await new Promise<void>((resolve) => {
+        this.reconnectTimer = setTimeout(resolve, delay * (1 - policy.jitter * Math.random()));
+      });
+      this.reconnectTimer = null;
+      
+      if (run !== this.reconnectRun) return;
+      
+      this.log('info', 'Resuming cast session', { ...session, attempt });
+      
+      try {
+        const message: CastResumeSessionMessage = createMessage({
+          type: 'CAST_RESUME_SESSION',
+          payload: session,
+        });
+        
+        const response = await this.request(message);
+        
+        // The session may have been stopped, restarted or reported as connected meanwhile
+        if (run !== this.reconnectRun) return;
+        
+        if (response.payload.status === 'connected') {
+          this.handleSessionConnected(response.payload);
+          return;
+        }
+      } catch (error) {
+        if (run !== this.reconnectRun) return;
+        
+        this.log('warn', 'Failed to resume cast session', { attempt, error });
+      }
+    }
+    
+    const error = new CastKitError(
+      'RECONNECT_FAILED',
+      `Failed to resume the cast session after ${policy.maxAttempts} attempts`,
+      session
+    );
+    
+    this.log('error', error.message, error.details);
+    
+    this.forgetSession();
+    this.transition('fail', {
+      deviceId: null,
+      deviceName: null,
+      error: error.toCastError(),
+    });
+    this.offlineQueue?.clear(new Error('No active cast session'));
+  }
+  
+  /**
+   * Send the whole game state to a resumed session
+   * 
+   * The receiver may have lost updates or restarted while the session was down.
+   */
+  private restoreState(): Promise<void> {
+    const state = this.gameState;
+    const seq = this.nextSeq();
+    
+    const restore = this.stateUpdates.then(async () => {
+      const version = this.stateVersion + 1;
+      
+      try {
+        const response = await this.sendStateSnapshot(state, seq, true, version);
+        
+        this.confirmedState = state;
+        this.stateVersion = version;
+        this.needsSnapshot = false;
+        this.confirmSeq(response.payload.seq ?? seq);
+      } catch (error) {
+        this.needsSnapshot = true;
+        this.handleError('Failed to restore the game state', error);
+      }
+    });
+    
+    this.stateUpdates = restore;
+    return restore;
+  }
+  
+  /**
+   * Deliver a state update to the receiver as is
+   */
+  private async deliverStateUpdate(partial: Record<string, unknown>, seq: number): Promise<void> {
+    try {
+      const response = await this.sendStateSnapshot(partial, seq, false);
+      this.confirmSeq(response.payload.seq ?? seq);
+    } catch (error) {
+      this.handleError('Failed to send state update', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Deliver a state update to the receiver as a patch against the confirmed state
+   */
+  private async deliverStatePatch(nextState: Record<string, unknown>, seq: number): Promise<void> {
+    const version = this.stateVersion + 1;
+    let response: CastStateConfirmedMessage;
+    
+    try {
+      if (this.needsSnapshot || !this.supportsFeature('statePatch')) {
+        response = await this.sendStateSnapshot(nextState, seq, true, version);
+      } else {
+        const patch = createPatch(this.confirmedState, nextState);
+        
+        // Nothing to send, the receiver already has this state
+        if (patch.length === 0) {
+          this.log('info', 'State unchanged, skipping update');
+          this.confirmSeq(seq);
+          return;
+        }
+        
+        const message: CastStatePatchMessage = createMessage({
+          type: 'CAST_STATE_PATCH',
+          payload: {
+            patch,
+            baseVersion: this.stateVersion,
+            version,
+            timestamp: Date.now(),
+            seq,
+          },
+        });
+        
+        response = await this.request(message);
+      }
+    } catch (error) {
+      // The receiver may or may not have the update now
+      this.needsSnapshot = true;
+      
+      this.handleError('Failed to send state update', error);
+      throw error;
+    }
+    
+    this.confirmedState = nextState;
+    this.stateVersion = version;
+    this.needsSnapshot = false;
+    this.confirmSeq(response.payload.seq ?? seq);
+  }
+  
+  /**
+   * Send a state snapshot to the receiver
+   */
+  private sendStateSnapshot(
+    state: Record<string, unknown>,
+    seq: number,
+    replace: boolean,
+    version?: number
+  ): Promise<CastStateConfirmedMessage> {
+    const message: CastStateUpdateMessage = createMessage({
+      type: 'CAST_STATE_UPDATE',
+      payload: {
+        state,
+        timestamp: Date.now(),
+        seq,
+        ...(version !== undefined && { version }),
+        ...(replace && { replace }),
+      },
+    });
+    
+    return this.request(message);
+  }
+  
+  /**
+   * Send a request to the host and wait for its response
+   * 
+   * The request rejects when the client is disposed, even if the bridge
+   * belongs to the caller and keeps waiting for the host.
+   */
+  private request<M extends CastRequestMessage>(message: M): Promise<CastResponseMessage<M['type']>> {
+    const response = new Promise<CastResponseMessage<M['type']>>((resolve) => {
+      resolve(this.bridge.sendMessageWithResponse(message));
+    });
+    
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.add(reject);
+      
+      response.then(resolve, reject).finally(() => {
+        this.pendingRequests.delete(reject);
+      });
+    });
+  }
+  
+  /**
+   * Send a request whose reply is only handled by the caller, not by the listeners
+   */
+  private async requestForCaller<M extends CastRequestMessage>(
+    message: M
+  ): Promise<CastResponseMessage<M['type']>> {
+    const { requestId } = message;
+    
+    if (requestId) {
+      this.callerReplies.add(requestId);
+    }
+    
+    try {
+      return await this.request(message);
+    } finally {
+      if (requestId) {
+        this.callerReplies.delete(requestId);
+      }
+    }
+  }
+  
+  /**
+   * Queue a state update until the session reconnects, counting the ones
+   * the queue rejects because it is full or they expired
+   */
+  private enqueueOffline(queue: OfflineQueue, state: Record<string, unknown>): Promise<void> {
+    this.log('info', 'Queueing state update until the session reconnects');
+    
+    return queue.enqueue(state).catch((error) => {
+      if (error instanceof CastKitError && (error.code === 'OFFLINE_QUEUE_FULL' || error.code === 'OFFLINE_QUEUE_EXPIRED')) {
+        this.droppedUpdates++;
+      }
+      throw error;
+    });
+  }
+  
+  /**
+   * Get the offline queue if state updates should be queued instead of sent
+   */
+  private queueWhileReconnecting(): OfflineQueue | null {
+    const { sessionId, isConnecting, isReconnecting } = this.stateManager.getState();
+    
+    return !sessionId && (isConnecting || isReconnecting) ? this.offlineQueue : null;
+  }
+  
+  /**
+   * Throw if the client has been disposed
+   */
+  private requireActive(action: string): void {
+    if (!this.disposed) return;
+    
+    throw new CastKitError('CLIENT_DISPOSED', `Cannot ${action}, the cast client is disposed`);
+  }
+  
+  /**
+   * Get the active session ID or throw if there is none
+   */
+  private requireSession(): string {
+    const { sessionId } = this.stateManager.getState();
+    
+    if (!sessionId) {
+      this.log('warn', 'No active cast session to update');
+      throw new Error('No active cast session');
+    }
+    
+    return sessionId;
+  }
+  
+  /**
+   * Take the next state update sequence number
+   */
+  private nextSeq(): number {
+    this.lastSentSeq++;
+    this.updateSeqState(this.stateManager.getState().lastConfirmedSeq);
+    return this.lastSentSeq;
+  }
+  
+  /**
+   * Record the acknowledgement of a state update
+   * 
+   * Acknowledgements can arrive out of order, only newer ones move the
+   * confirmed sequence number forward.
+   */
+  private confirmSeq(seq: number): void {
+    const { lastConfirmedSeq } = this.stateManager.getState();
+    
+    if (lastConfirmedSeq === null || seq > lastConfirmedSeq) {
+      this.updateSeqState(seq);
+      this.emit('stateConfirmed', { seq });
+    }
+  }
+  
+  /**
+   * Update the sequence numbers in the state
+   */
+  private updateSeqState(lastConfirmedSeq: number | null): void {
+    this.stateManager.setState({
+      lastConfirmedSeq,
+      inFlightSeqs: Math.max(0, this.lastSentSeq - (lastConfirmedSeq ?? 0)),
     });
   }
   
+  /**
+   * Probe the environment and pick the backend to use
+   * 
+   * A bridge passed in the options always wins, then an explicit backend,
+   * then the best backend found by the probe.
+   */
+  private selectBackend(options: CastClientOptions): CastEnvironment {
+    const available = detectBackends(options);
+    
+    if (options.bridge) {
+      return { available, backend: 'custom' };
+    }
+    
+    if (options.backend && options.backend !== 'auto') {
+      return { available, backend: options.backend };
+    }
+    
+    return { available, backend: available[0] ?? null };
+  }
+  
+  /**
+   * Check whether the host supports a feature
+   * 
+   * Before signalReady completes nothing is known about the host, so every
+   * feature is assumed to be available.
+   */
+  private supportsFeature(feature: CastFeature): boolean {
+    const { protocolVersion, features } = this.stateManager.getState();
+    return protocolVersion === null || features.includes(feature);
+  }
+  
+  /**
+   * Move the session to the status an event leads to
+   * 
+   * The state updates are applied along with the new status. Events that
+   * aren't allowed in the current status are ignored, returns whether the
+   * event was applied.
+   */
+  private transition(event: SessionEvent, updates: Partial<CastState> = {}): boolean {
+    const transition = this.sessionMachine.transition(event);
+    
+    if (!transition) {
+      this.log('warn', `Ignoring session event '${event}' while ${this.sessionMachine.status}`);
+      return false;
+    }
+    
+    const { session } = this.stateManager.getState();
+    const endReason = session && sessionEndReason(transition);
+    
+    const ended = session && endReason ? this.recordSession(session, endReason, updates.error?.message) : null;
+    
+    this.stateManager.setState({
+      session: session && !endReason ? { ...session, status: transition.to } : null,
+      // Errors from before the session started no longer apply
+      ...(isSessionActive(transition.to) && { error: null }),
+      ...updates,
+      ...sessionFlags(transition.to),
+      sessionStatus: transition.to,
+    });
+    
+    if (ended) {
+      this.emit('sessionEnded', { reason: ended.endReason, session: ended });
+    }
+    
+    // A resumed session carries on, anything else connected is a new one
+    if (updates.session && (!session || endReason)) {
+      this.emit('sessionStarted', { session: { ...updates.session } });
+    }
+    
+    if (transition.from !== transition.to) {
+      this.log('info', 'Session status changed', transition);
+      
+      for (const listener of this.transitionListeners) {
+        try {
+          listener(transition);
+        } catch (error) {
+          // A failing listener must not leave the session half updated
+          this.log('error', 'Session transition listener failed', error);
+        }
+      }
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Add an ended session to the session history and return its record
+   */
+  private recordSession(session: CastSession, endReason: SessionEndReason, error?: string): CastSessionRecord {
+    const endedAt = Date.now();
+    const record: CastSessionRecord = {
+      sessionId: session.sessionId,
+      deviceId: session.deviceId,
+      deviceName: session.deviceName,
+      createdAt: session.createdAt,
+      endedAt,
+      duration: endedAt - session.createdAt,
+      endReason,
+      ...(error ? { error } : {}),
+    };
+    
+    this.log('info', 'Cast session ended', record);
+    
+    this.stateManager.setState((state) => ({
+      sessionHistory: [record, ...state.sessionHistory].slice(0, Math.max(0, this.options.sessionHistorySize)),
+    }));
+    
+    return record;
+  }
+  
+  /**
+   * Call the listeners to a client event
+   */
+  private emit<E extends CastClientEvent>(event: E, payload: CastClientEvents[E]): void {
+    const listeners = this.eventListeners.get(event) as Set<CastClientEventListener<E>> | undefined;
+    
+    if (!listeners) return;
+    
+    for (const listener of listeners) {
+      try {
+        listener(payload);
+      } catch (error) {
+        // A failing listener must not break the client or the other listeners
+        this.log('error', `Listener to '${event}' failed`, error);
+      }
+    }
+  }
+  
+  /**
+   * Throw if the session can't take an event in its current status
+   */
+  private requireTransition(event: SessionEvent, action: string): void {
+    if (this.sessionMachine.can(event)) return;
+    
+    const { status } = this.sessionMachine;
+    const error = new CastKitError(
+      'INVALID_SESSION_STATE',
+      `Cannot ${action} while the session is ${status}`,
+      { status }
+    );
+    
+    this.log('error', error.message, error.details);
+    this.setError(error.toCastError());
+    
+    throw error;
+  }
+  
+  /**
+   * Throw if the host doesn't support a feature
+   */
+  private requireFeature(feature: CastFeature, action: string): void {
+    if (this.supportsFeature(feature)) return;
+    
+    const error = new CastKitError(
+      'UNSUPPORTED_FEATURE',
+      `Host does not support the '${feature}' feature needed to ${action}`,
+      { feature }
+    );
+    
+    this.log('error', error.message, error.details);
+    this.setError(error.toCastError());
+    
+    throw error;
+  }
+  
   /**
    * Handle errors from the bridge
    */
   private handleError(message: string, error: unknown): void {
     this.log('error', message, error);
     
-    // Create cast error
-    const castError: CastError = {
-      code: 'BRIDGE_ERROR',
-      message: message,
-      details: { originalError: error },
-    };
+    // Keep the code of errors reported by the host, wrap anything else
+    const castError: CastError = error instanceof CastKitError
+      ? error.toCastError()
+      : {
+        code: 'BRIDGE_ERROR',
+        message: message,
+        details: { originalError: error },
+      };
+    
+    this.setError(castError);
+  }
+  
+  /**
+   * Set an error in the state, or only report it while a session is underway
+   * 
+   * The session keeps running after errors such as a failed state update, so
+   * they are emitted as 'error' events without marking the session as failed.
+   */
+  private setError(error: CastError): void {
+    if (isSessionActive(this.sessionMachine.status)) {
+      this.emit('error', { error });
+      return;
+    }
     
-    // Update state with error
-    this.stateManager.setState({ error: castError });
+    this.stateManager.setState({ error });
   }
   
   /**
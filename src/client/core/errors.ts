@@ -0,0 +1,41 @@
+/**
+ * Error types for Cast Kit
+ */
+
+import { CastError } from './types';
+
+/**
+ * Error thrown when a Cast Kit operation fails
+ * 
+ * Carries the same code, message and details as the CastError stored in state,
+ * so native error codes survive being passed through promise rejections.
+ */
+export class CastKitError extends Error implements CastError {
+  /**
+   * Error code
+   */
+  public readonly code: string;
+  
+  /**
+   * Additional error details
+   */
+  public readonly details?: Record<string, unknown>;
+  
+  constructor(code: string, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'CastKitError';
+    this.code = code;
+    this.details = details;
+  }
+  
+  /**
+   * Convert to a plain CastError for storing in state
+   */
+  public toCastError(): CastError {
+    return {
+      code: this.code,
+      message: this.message,
+      details: this.details,
+    };
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Tests for JSON Patch
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyPatch, createPatch, type JsonPatchOperation } from './json-patch';
+
+describe('JSON Patch', () => {
+  it('diffs nested fields, added and removed keys', () => {
+    const from = { score: 1, players: { a: { hp: 3 } }, bonus: true };
+    const to = { score: 1, players: { a: { hp: 2 }, b: { hp: 3 } } };
+
+    expect(createPatch(from, to)).toEqual([
+      { op: 'remove', path: '/bonus' },
+      { op: 'replace', path: '/players/a/hp', value: 2 },
+      { op: 'add', path: '/players/b', value: { hp: 3 } },
+    ]);
+  });
+
+  it('returns an empty patch for equal documents', () => {
+    expect(createPatch({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+  });
+
+  it('diffs arrays of the same length by index and replaces the others', () => {
+    expect(createPatch({ a: [1, 2] }, { a: [1, 3] })).toEqual([{ op: 'replace', path: '/a/1', value: 3 }]);
+    expect(createPatch({ a: [1, 2] }, { a: [1] })).toEqual([{ op: 'replace', path: '/a', value: [1] }]);
+  });
+
+  it('escapes keys in paths', () => {
+    expect(createPatch({}, { 'a/b~c': 1 })).toEqual([{ op: 'add', path: '/a~1b~0c', value: 1 }]);
+  });
+
+  it('applies its own patches exactly', () => {
+    const from = { score: 1, grid: [[0, 1], [1, 0]], players: { a: { hp: 3 } }, 'x/y': 1 };
+    const to = { score: 2, grid: [[0, 0], [1, 0], [1, 1]], players: { b: { hp: 1 } } };
+
+    expect(applyPatch(from, createPatch(from, to))).toEqual(to);
+  });
+
+  it('does not modify the document', () => {
+    const document = { a: { b: 1 } };
+
+    applyPatch(document, [{ op: 'replace', path: '/a/b', value: 2 }]);
+
+    expect(document).toEqual({ a: { b: 1 } });
+  });
+
+  it('supports array, move, copy and test operations', () => {
+    const document = { list: [1, 2], source: { value: 1 } };
+
+    expect(
+      applyPatch(document, [
+        { op: 'add', path: '/list/-', value: 3 },
+        { op: 'add', path: '/list/0', value: 0 },
+        { op: 'remove', path: '/list/1' },
+        { op: 'copy', from: '/source', path: '/copied' },
+        { op: 'move', from: '/source/value', path: '/moved' },
+        { op: 'test', path: '/moved', value: 1 },
+      ])
+    ).toEqual({ list: [0, 2, 3], source: {}, copied: { value: 1 }, moved: 1 });
+  });
+
+  it('throws for operations that cannot be applied', () => {
+    expect(() => applyPatch({}, [{ op: 'remove', path: '/missing' }])).toThrow('Path not found');
+    expect(() => applyPatch({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }])).toThrow('Test failed');
+    expect(() => applyPatch({ list: [] }, [{ op: 'add', path: '/list/5', value: 1 }])).toThrow(
+      'Invalid array index'
+    );
+  });
+
+  it('rejects paths that reach object prototypes', () => {
+    const attacks: JsonPatchOperation[] = [
+      { op: 'add', path: '/__proto__/polluted', value: 'yes' },
+      { op: 'copy', from: '/value', path: '/__proto__' },
+      { op: 'add', path: '/nested/__proto__/polluted', value: 'yes' },
+    ];
+
+    for (const operation of attacks) {
+      expect(() => applyPatch({ value: 1, nested: {} }, [operation])).toThrow('Unsafe JSON Pointer');
+    }
+
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('patches keys named after inherited properties', () => {
+    const from = { constructor: { name: 'a' }, prototype: 1 };
+    const to = { constructor: { name: 'b' }, prototype: 2 };
+    const patch = createPatch(from, to);
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/constructor/name', value: 'b' },
+      { op: 'replace', path: '/prototype', value: 2 },
+    ]);
+    expect(applyPatch(from, patch)).toEqual(to);
+  });
+
+  it('replaces objects with a __proto__ key whole', () => {
+    const from = { nested: JSON.parse('{"__proto__": 1, "a": 1}') };
+    const to = { nested: JSON.parse('{"__proto__": 1, "a": 2}') };
+    const patch = createPatch(from, to);
+
+    expect(patch).toEqual([{ op: 'replace', path: '/nested', value: to.nested }]);
+    expect(applyPatch(from, patch)).toEqual(to);
+    expect(({} as Record<string, unknown>).a).toBeUndefined();
+  });
+
+  it('only follows own properties', () => {
+    expect(() => applyPatch({}, [{ op: 'add', path: '/toString/polluted', value: 'yes' }])).toThrow('Path not found');
+    expect(() => applyPatch({}, [{ op: 'test', path: '/hasOwnProperty', value: null }])).toThrow('Path not found');
+    expect(() => applyPatch({}, [{ op: 'replace', path: '/constructor/prototype/polluted', value: 'yes' }])).toThrow(
+      'Path not found'
+    );
+  });
+});
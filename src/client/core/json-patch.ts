@@ -0,0 +1,287 @@
+/**
+ * JSON Patch for Cast Kit
+ *
+ * This module implements the subset of RFC 6902 JSON Patch used to send state
+ * updates as deltas: diffing two JSON documents into a patch, and applying a
+ * patch to a document.
+ */
+
+/**
+ * JSON Patch operation
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check whether two JSON values are deeply equal
+ */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => jsonEqual(item, b[index]));
+  }
+
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && jsonEqual(a[key], b[key]))
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Escape a key for use in a JSON Pointer
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Key that would set the prototype of an object instead of an own property
+ *
+ * Other inherited names such as 'constructor' are safe, since only own
+ * properties are followed.
+ */
+const UNSAFE_KEY = '__proto__';
+
+/**
+ * Split a JSON Pointer into its keys
+ *
+ * Patches can come from other frames, so the key that would modify object
+ * prototypes is rejected.
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+
+  const keys = pointer
+    .substring(1)
+    .split('/')
+    .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (keys.includes(UNSAFE_KEY)) {
+    throw new Error(`Unsafe JSON Pointer: ${pointer}`);
+  }
+
+  return keys;
+}
+
+/**
+ * Deep copy a JSON value
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Check whether an object has a key that can't be used in a JSON Pointer
+ */
+function hasUnsafeKey(value: Record<string, unknown>): boolean {
+  return Object.prototype.hasOwnProperty.call(value, UNSAFE_KEY);
+}
+
+/**
+ * Append the operations turning one value into another
+ */
+function diff(from: unknown, to: unknown, path: string, patch: JsonPatchOperation[]): void {
+  if (jsonEqual(from, to)) return;
+
+  // Objects with a '__proto__' key are replaced whole, a path can't name it
+  if (isObject(from) && isObject(to) && !hasUnsafeKey(from) && !hasUnsafeKey(to)) {
+    for (const key of Object.keys(from)) {
+      if (!Object.prototype.hasOwnProperty.call(to, key)) {
+        patch.push({ op: 'remove', path: `${path}/${escapePointer(key)}` });
+      }
+    }
+
+    for (const key of Object.keys(to)) {
+      const keyPath = `${path}/${escapePointer(key)}`;
+
+      if (Object.prototype.hasOwnProperty.call(from, key)) {
+        diff(from[key], to[key], keyPath, patch);
+      } else {
+        patch.push({ op: 'add', path: keyPath, value: clone(to[key]) });
+      }
+    }
+    return;
+  }
+
+  // Arrays of the same length are diffed item by item, anything else is replaced
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    from.forEach((item, index) => diff(item, to[index], `${path}/${index}`, patch));
+    return;
+  }
+
+  patch.push({ op: 'replace', path, value: clone(to) });
+}
+
+/**
+ * Compute the JSON Patch that turns one document into another
+ */
+export function createPatch(from: unknown, to: unknown): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = [];
+  diff(from, to, '', patch);
+  return patch;
+}
+
+/**
+ * Find the container and key a JSON Pointer refers to
+ */
+function resolveParent(document: unknown, pointer: string): { parent: unknown; key: string } {
+  const keys = parsePointer(pointer);
+  const key = keys.pop() as string;
+  let parent = document;
+
+  for (const segment of keys) {
+    if ((Array.isArray(parent) || isObject(parent)) && Object.prototype.hasOwnProperty.call(parent, segment)) {
+      parent = (parent as Record<string, unknown>)[segment];
+    } else {
+      parent = undefined;
+    }
+
+    if (parent === undefined) {
+      throw new Error(`Path not found: ${pointer}`);
+    }
+  }
+
+  return { parent, key };
+}
+
+/**
+ * Parse an array index from a JSON Pointer key
+ */
+function arrayIndex(array: unknown[], key: string, allowEnd: boolean): number {
+  if (allowEnd && key === '-') return array.length;
+
+  const index = /^(0|[1-9][0-9]*)$/.test(key) ? Number(key) : -1;
+
+  if (index < 0 || index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Invalid array index: ${key}`);
+  }
+
+  return index;
+}
+
+/**
+ * Read the value a JSON Pointer refers to
+ */
+function getValue(document: unknown, pointer: string): unknown {
+  if (pointer === '') return document;
+
+  const { parent, key } = resolveParent(document, pointer);
+
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, key, false)];
+  }
+
+  if (isObject(parent) && Object.prototype.hasOwnProperty.call(parent, key)) {
+    return parent[key];
+  }
+
+  throw new Error(`Path not found: ${pointer}`);
+}
+
+/**
+ * Add a value at a JSON Pointer, returning the new document
+ */
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') return value;
+
+  const { parent, key } = resolveParent(document, pointer);
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else if (isObject(parent)) {
+    parent[key] = value;
+  } else {
+    throw new Error(`Path not found: ${pointer}`);
+  }
+
+  return document;
+}
+
+/**
+ * Remove the value at a JSON Pointer, returning the new document
+ */
+function removeValue(document: unknown, pointer: string): unknown {
+  if (pointer === '') return undefined;
+
+  const { parent, key } = resolveParent(document, pointer);
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else if (isObject(parent) && Object.prototype.hasOwnProperty.call(parent, key)) {
+    Reflect.deleteProperty(parent, key);
+  } else {
+    throw new Error(`Path not found: ${pointer}`);
+  }
+
+  return document;
+}
+
+/**
+ * Apply a JSON Patch to a document
+ *
+ * The document isn't modified. Throws if an operation can't be applied, in
+ * which case none of the patch is applied.
+ */
+export function applyPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  let result: unknown = clone(document);
+
+  for (const operation of patch) {
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, operation.path, clone(operation.value));
+        break;
+
+      case 'remove':
+        result = removeValue(result, operation.path);
+        break;
+
+      case 'replace':
+        getValue(result, operation.path);
+        result = addValue(removeValue(result, operation.path), operation.path, clone(operation.value));
+        break;
+
+      case 'move': {
+        const value = getValue(result, operation.from);
+        result = addValue(removeValue(result, operation.from), operation.path, value);
+        break;
+      }
+
+      case 'copy':
+        result = addValue(result, operation.path, clone(getValue(result, operation.from)));
+        break;
+
+      case 'test':
+        if (!jsonEqual(getValue(result, operation.path), operation.value)) {
+          throw new Error(`Test failed: ${operation.path}`);
+        }
+        break;
+
+      default:
+        throw new Error(`Unknown operation: ${(operation as { op: string }).op}`);
+    }
+  }
+
+  return result as T;
+}
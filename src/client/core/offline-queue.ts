@@ -0,0 +1,166 @@
+/**
+ * Offline queue for state updates
+ *
+ * This module buffers state updates made while the cast session is
+ * reconnecting, so they can be sent once it is connected again.
+ */
+
+import { CastKitError } from './errors';
+import type { OfflineQueueOptions } from './types';
+
+/**
+ * Default maximum number of queued updates
+ */
+const DEFAULT_MAX_SIZE = 100;
+
+/**
+ * Default maximum age of queued updates in milliseconds
+ */
+const DEFAULT_MAX_AGE = 30000;
+
+/**
+ * The caller of a queued state update
+ */
+interface QueuedUpdate {
+  queuedAt: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Buffers state updates until the session is connected again
+ *
+ * The queued updates are merged in order (later keys win) into a single
+ * update as they come, which is sent when flushed. Every caller's promise
+ * settles with it, unless the caller was evicted or expired before: its
+ * promise rejects, but its keys are still sent so the receiver doesn't miss
+ * them.
+ */
+export class OfflineQueue {
+  private maxSize: number;
+  private maxAge: number;
+  private state: Record<string, unknown> | null = null;
+  private updates: QueuedUpdate[] = [];
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: OfflineQueueOptions = {}) {
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    this.maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+  }
+
+  /**
+   * Number of queued updates
+   */
+  public get size(): number {
+    return this.updates.length;
+  }
+
+  /**
+   * Queue a state update
+   *
+   * Resolves once the merged update it ends up in is sent. Rejects with
+   * OFFLINE_QUEUE_FULL when newer updates push it out of a full queue, or
+   * OFFLINE_QUEUE_EXPIRED when the session doesn't reconnect in time.
+   */
+  public enqueue(state: Record<string, unknown>): Promise<void> {
+    this.expire();
+
+    // Keep keys set to undefined so they still remove the key when sent
+    this.state = { ...this.state, ...state };
+
+    // Make room for the newest update by evicting the oldest
+    while (this.updates.length >= this.maxSize && this.updates.length > 0) {
+      const update = this.updates.shift() as QueuedUpdate;
+
+      update.reject(
+        new CastKitError('OFFLINE_QUEUE_FULL', 'Too many state updates queued while reconnecting', {
+          maxSize: this.maxSize,
+        })
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.updates.push({ queuedAt: Date.now(), resolve, reject });
+      this.scheduleExpiry();
+    });
+  }
+
+  /**
+   * Send the queued updates as a single update
+   */
+  public flush(send: (state: Record<string, unknown>) => Promise<void>): void {
+    this.expire();
+
+    const { state, updates } = this;
+    this.state = null;
+    this.updates = [];
+    this.cancelExpiry();
+
+    if (!state) return;
+
+    send(state).then(
+      () => {
+        for (const update of updates) update.resolve();
+      },
+      (error) => {
+        for (const update of updates) update.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Drop the queued updates, rejecting their callers with the given error
+   */
+  public clear(error: unknown): void {
+    const updates = this.updates;
+    this.state = null;
+    this.updates = [];
+    this.cancelExpiry();
+
+    for (const update of updates) {
+      update.reject(error);
+    }
+  }
+
+  /**
+   * Expire the oldest update once it is too old, even if nothing else happens
+   */
+  private scheduleExpiry(): void {
+    if (this.expiryTimer || this.updates.length === 0) return;
+
+    const delay = Math.max(0, this.updates[0].queuedAt + this.maxAge - Date.now() + 1);
+
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      this.expire();
+      this.scheduleExpiry();
+    }, delay);
+  }
+
+  /**
+   * Stop the expiry timer
+   */
+  private cancelExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Reject the callers of updates older than the maximum age
+   */
+  private expire(): void {
+    const cutoff = Date.now() - this.maxAge;
+
+    while (this.updates.length > 0 && this.updates[0].queuedAt < cutoff) {
+      const update = this.updates.shift() as QueuedUpdate;
+
+      update.reject(
+        new CastKitError('OFFLINE_QUEUE_EXPIRED', 'State update expired while reconnecting', {
+          maxAge: this.maxAge,
+        })
+      );
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Session persistence
+ *
+ * This module saves the active cast session to storage, so a game reloaded
+ * in its WebView can reattach to a session that is still running on the TV.
+ */
+
+import type { CastClientOptions, CastPersistence, PersistedSession } from './types';
+
+/**
+ * Default storage key for the saved session
+ */
+export const DEFAULT_PERSISTENCE_KEY = 'cast-kit:session';
+
+/**
+ * Create a persistence adapter on top of a Web Storage object
+ */
+export function createStoragePersistence(storage: Storage, key: string = DEFAULT_PERSISTENCE_KEY): CastPersistence {
+  return {
+    load() {
+      const value = storage.getItem(key);
+      return value ? (JSON.parse(value) as PersistedSession) : null;
+    },
+
+    save(session) {
+      storage.setItem(key, JSON.stringify(session));
+    },
+
+    clear() {
+      storage.removeItem(key);
+    },
+  };
+}
+
+/**
+ * Get the persistence adapter for the persistence option
+ *
+ * Returns null when the requested storage isn't available, e.g. outside of a
+ * browser or when storage access is blocked.
+ */
+export function resolvePersistence(persistence: CastClientOptions['persistence']): CastPersistence | null {
+  if (persistence !== 'localStorage' && persistence !== 'sessionStorage') {
+    return persistence ?? null;
+  }
+
+  try {
+    return typeof window !== 'undefined' && window[persistence]
+      ? createStoragePersistence(window[persistence])
+      : null;
+  } catch {
+    // Reading window.localStorage throws when storage access is denied
+    return null;
+  }
+}
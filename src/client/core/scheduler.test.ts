@@ -0,0 +1,137 @@
+/**
+ * Tests for the state update scheduler
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StateUpdateScheduler } from './scheduler';
+
+/**
+ * Send function whose messages are confirmed by the test
+ */
+function createSender() {
+  const confirms: Array<() => void> = [];
+  const send = vi.fn(
+    (_state: Record<string, unknown>) =>
+      new Promise<void>((resolve) => {
+        confirms.push(resolve);
+      })
+  );
+
+  return { send, confirms };
+}
+
+describe('State Update Scheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends every update right away in the immediate mode', () => {
+    const { send } = createSender();
+    const scheduler = new StateUpdateScheduler(send);
+
+    scheduler.schedule({ score: 1 });
+    scheduler.schedule({ score: 2 });
+
+    expect(send.mock.calls).toEqual([[{ score: 1 }], [{ score: 2 }]]);
+    expect(scheduler.getStats()).toEqual({ queued: 0, merged: 0, sent: 2 });
+  });
+
+  it('merges updates made while one is in flight', async () => {
+    const { send, confirms } = createSender();
+    const scheduler = new StateUpdateScheduler(send, { mode: 'leading' });
+
+    const first = scheduler.schedule({ score: 1 });
+    const second = scheduler.schedule({ score: 2, bonus: true });
+    const third = scheduler.schedule({ score: 3, bonus: undefined });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStats()).toEqual({ queued: 2, merged: 1, sent: 1 });
+
+    confirms[0]();
+    await first;
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send).toHaveBeenLastCalledWith({ score: 3, bonus: undefined });
+    expect(scheduler.getStats()).toEqual({ queued: 0, merged: 1, sent: 2 });
+
+    confirms[1]();
+    await expect(Promise.all([second, third])).resolves.toBeDefined();
+  });
+
+  it('limits the rate of leading updates', async () => {
+    const { send, confirms } = createSender();
+    const scheduler = new StateUpdateScheduler(send, { mode: 'leading', maxRate: 10 });
+
+    scheduler.schedule({ score: 1 });
+    confirms[0]();
+    await vi.advanceTimersByTimeAsync(0);
+
+    scheduler.schedule({ score: 2 });
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(send).toHaveBeenLastCalledWith({ score: 2 });
+  });
+
+  it('sends trailing updates at the end of the window', async () => {
+    const { send } = createSender();
+    const scheduler = new StateUpdateScheduler(send, { mode: 'trailing', maxRate: 20 });
+
+    scheduler.schedule({ x: 1 });
+    scheduler.schedule({ y: 2 });
+
+    await vi.advanceTimersByTimeAsync(49);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send.mock.calls).toEqual([[{ x: 1, y: 2 }]]);
+  });
+
+  it('sends updates before the next animation frame', () => {
+    const frames: FrameRequestCallback[] = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', vi.fn());
+
+    const { send } = createSender();
+    const scheduler = new StateUpdateScheduler(send, { mode: 'animationFrame' });
+
+    scheduler.schedule({ x: 1 });
+    scheduler.schedule({ x: 2 });
+
+    expect(send).not.toHaveBeenCalled();
+    expect(frames).toHaveLength(1);
+
+    frames[0](0);
+    expect(send.mock.calls).toEqual([[{ x: 2 }]]);
+  });
+
+  it('rejects every merged caller when the message fails', async () => {
+    const send = vi.fn().mockRejectedValue(new Error('Request timed out'));
+    const scheduler = new StateUpdateScheduler(send, { mode: 'trailing' });
+
+    const first = expect(scheduler.schedule({ x: 1 })).rejects.toThrow('Request timed out');
+    const second = expect(scheduler.schedule({ x: 2 })).rejects.toThrow('Request timed out');
+    await vi.advanceTimersByTimeAsync(0);
+
+    await first;
+    await second;
+  });
+
+  it('rejects queued updates when reset', async () => {
+    const { send } = createSender();
+    const scheduler = new StateUpdateScheduler(send, { mode: 'trailing', maxRate: 1 });
+
+    const update = scheduler.schedule({ x: 1 });
+    scheduler.reset(new Error('Cast session restarted'));
+
+    await expect(update).rejects.toThrow('Cast session restarted');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send).not.toHaveBeenCalled();
+    expect(scheduler.getStats()).toEqual({ queued: 0, merged: 0, sent: 0 });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * State update scheduler
+ *
+ * This module merges state updates made in quick succession, e.g. from a
+ * game loop, into fewer messages and limits how often they are sent.
+ */
+
+import type { StateUpdateMode, StateUpdateSchedulerOptions, StateUpdateStats } from './types';
+
+/**
+ * Scheduler statistics, the scheduler itself never drops an update
+ */
+export type SchedulerStats = Omit<StateUpdateStats, 'dropped'>;
+
+/**
+ * Function that sends a merged state update
+ */
+export type SendStateUpdate = (state: Record<string, unknown>) => Promise<void>;
+
+/**
+ * A caller waiting for its update to be sent
+ */
+interface PendingCaller {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Schedules state updates according to a mode and a maximum rate
+ *
+ * Outside of the 'immediate' mode at most one update is in flight, the
+ * updates made meanwhile are merged (later keys win) and sent together, and
+ * every caller's promise settles with the message that carried its update.
+ */
+export class StateUpdateScheduler {
+  private send: SendStateUpdate;
+  private mode: StateUpdateMode;
+  private interval: number;
+
+  private pending: Record<string, unknown> | null = null;
+  private callers: PendingCaller[] = [];
+  private inFlight = false;
+  private lastSentAt = Number.NEGATIVE_INFINITY;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private frame: number | null = null;
+
+  private stats: SchedulerStats = { queued: 0, merged: 0, sent: 0 };
+
+  constructor(send: SendStateUpdate, options: StateUpdateSchedulerOptions = {}) {
+    this.send = send;
+    this.mode = options.mode ?? 'immediate';
+    this.interval = options.maxRate && options.maxRate > 0 ? 1000 / options.maxRate : 0;
+  }
+
+  /**
+   * Queue a state update
+   *
+   * Resolves once the message carrying the update is confirmed.
+   */
+  public schedule(state: Record<string, unknown>): Promise<void> {
+    if (this.mode === 'immediate') {
+      this.stats.sent++;
+      return this.send(state);
+    }
+
+    if (this.pending) {
+      this.stats.merged++;
+    }
+
+    // Keep keys set to undefined so they still remove the key when sent
+    this.pending = { ...this.pending, ...state };
+    this.stats.queued++;
+
+    const sent = new Promise<void>((resolve, reject) => {
+      this.callers.push({ resolve, reject });
+    });
+
+    this.plan();
+
+    return sent;
+  }
+
+  /**
+   * Get the scheduler statistics
+   */
+  public getStats(): SchedulerStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Drop the queued updates and reset the statistics
+   *
+   * Callers waiting for the dropped updates are rejected with the given error.
+   */
+  public reset(error: unknown): void {
+    this.cancelTimers();
+
+    const callers = this.callers;
+    this.pending = null;
+    this.callers = [];
+    this.stats = { queued: 0, merged: 0, sent: 0 };
+
+    for (const caller of callers) {
+      caller.reject(error);
+    }
+  }
+
+  /**
+   * Arrange for the queued updates to be sent
+   */
+  private plan(): void {
+    // The queued updates go out once the update in flight is done
+    if (!this.pending || this.inFlight || this.timer !== null || this.frame !== null) {
+      return;
+    }
+
+    const wait = Math.max(0, this.lastSentAt + this.interval - Date.now());
+
+    switch (this.mode) {
+      case 'leading':
+        if (wait === 0) {
+          this.flush();
+        } else {
+          this.timer = setTimeout(() => this.flush(), wait);
+        }
+        break;
+
+      case 'trailing':
+        this.timer = setTimeout(() => this.flush(), Math.max(wait, this.interval));
+        break;
+
+      case 'animationFrame':
+        if (wait > 0) {
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.plan();
+          }, wait);
+        } else if (typeof requestAnimationFrame === 'function') {
+          this.frame = requestAnimationFrame(() => this.flush());
+        } else {
+          // Roughly one frame at 60Hz
+          this.timer = setTimeout(() => this.flush(), 16);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Send the queued updates as one message
+   */
+  private flush(): void {
+    this.cancelTimers();
+
+    const state = this.pending;
+    const callers = this.callers;
+
+    if (!state) return;
+
+    this.pending = null;
+    this.callers = [];
+    this.inFlight = true;
+    this.lastSentAt = Date.now();
+    this.stats.queued -= callers.length;
+    this.stats.sent++;
+
+    this.send(state)
+      .then(
+        () => {
+          for (const caller of callers) caller.resolve();
+        },
+        (error) => {
+          for (const caller of callers) caller.reject(error);
+        }
+      )
+      .finally(() => {
+        this.inFlight = false;
+        this.plan();
+      });
+  }
+
+  /**
+   * Cancel any timer or animation frame waiting to send
+   */
+  private cancelTimers(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.frame !== null) {
+      if (typeof cancelAnimationFrame === 'function') {
+        cancelAnimationFrame(this.frame);
+      }
+      this.frame = null;
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for the cast session state machine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isSessionActive, SessionMachine, SESSION_TRANSITIONS, sessionEndReason, sessionFlags } from './session-machine';
+import type { CastSessionStatus, SessionEvent } from './types';
+
+const STATUSES: CastSessionStatus[] = ['idle', 'scanning', 'connecting', 'connected', 'reconnecting', 'ending', 'error'];
+
+const EVENTS: SessionEvent[] = [
+  'scan',
+  'scanComplete',
+  'connect',
+  'connecting',
+  'connected',
+  'connectionLost',
+  'end',
+  'ended',
+  'fail',
+  'reset',
+];
+
+/**
+ * Every allowed transition as [from, event, to]
+ */
+const EDGES: [CastSessionStatus, SessionEvent, CastSessionStatus][] = [
+  ['idle', 'scan', 'scanning'],
+  ['idle', 'connect', 'connecting'],
+  ['idle', 'connecting', 'connecting'],
+  ['idle', 'connected', 'connected'],
+
+  ['scanning', 'scan', 'scanning'],
+  ['scanning', 'scanComplete', 'idle'],
+  ['scanning', 'connect', 'connecting'],
+  ['scanning', 'fail', 'error'],
+
+  ['connecting', 'connect', 'connecting'],
+  ['connecting', 'connecting', 'connecting'],
+  ['connecting', 'connected', 'connected'],
+  ['connecting', 'connectionLost', 'reconnecting'],
+  ['connecting', 'ended', 'idle'],
+  ['connecting', 'fail', 'error'],
+
+  ['connected', 'connect', 'connecting'],
+  ['connected', 'connecting', 'connecting'],
+  ['connected', 'connected', 'connected'],
+  ['connected', 'connectionLost', 'reconnecting'],
+  ['connected', 'end', 'ending'],
+  ['connected', 'ended', 'idle'],
+  ['connected', 'fail', 'error'],
+
+  ['reconnecting', 'connect', 'connecting'],
+  ['reconnecting', 'connected', 'connected'],
+  ['reconnecting', 'ended', 'idle'],
+  ['reconnecting', 'fail', 'error'],
+
+  ['ending', 'ended', 'idle'],
+  ['ending', 'fail', 'error'],
+
+  ['error', 'scan', 'scanning'],
+  ['error', 'connect', 'connecting'],
+  ['error', 'connecting', 'connecting'],
+  ['error', 'connected', 'connected'],
+  ['error', 'reset', 'idle'],
+];
+
+describe('Session Machine', () => {
+  it('starts idle', () => {
+    expect(new SessionMachine().status).toBe('idle');
+  });
+
+  it.each(EDGES)('moves from %s on %s to %s', (from, event, to) => {
+    const machine = new SessionMachine(from);
+
+    expect(machine.can(event)).toBe(true);
+    expect(machine.transition(event)).toEqual({ from, to, event });
+    expect(machine.status).toBe(to);
+  });
+
+  it('rejects every other event', () => {
+    for (const from of STATUSES) {
+      for (const event of EVENTS) {
+        if (EDGES.some(([edgeFrom, edgeEvent]) => edgeFrom === from && edgeEvent === event)) continue;
+
+        const machine = new SessionMachine(from);
+
+        expect(machine.can(event)).toBe(false);
+        expect(machine.transition(event)).toBeNull();
+        expect(machine.status).toBe(from);
+      }
+    }
+  });
+
+  it('has no transitions beyond the tested ones', () => {
+    const count = Object.values(SESSION_TRANSITIONS).reduce((total, events) => total + Object.keys(events).length, 0);
+
+    expect(count).toBe(EDGES.length);
+  });
+
+  it('never reports casting and connecting at once', () => {
+    for (const status of STATUSES) {
+      const flags = sessionFlags(status);
+      const active = [flags.isScanning, flags.isConnecting, flags.isReconnecting, flags.isCasting].filter(Boolean);
+
+      expect(active.length).toBeLessThanOrEqual(1);
+    }
+
+    expect(sessionFlags('connected').isCasting).toBe(true);
+    expect(sessionFlags('error')).toEqual({
+      isScanning: false,
+      isConnecting: false,
+      isReconnecting: false,
+      isCasting: false,
+    });
+  });
+
+  it('tells which statuses have a session underway', () => {
+    const statuses = Object.keys(SESSION_TRANSITIONS) as CastSessionStatus[];
+
+    expect(statuses.filter(isSessionActive)).toEqual(['connecting', 'connected', 'reconnecting', 'ending']);
+  });
+
+  it('tells why a transition ends the session', () => {
+    expect(sessionEndReason({ from: 'ending', to: 'idle', event: 'ended' })).toBe('stopped');
+    expect(sessionEndReason({ from: 'reconnecting', to: 'idle', event: 'ended' })).toBe('stopped');
+    expect(sessionEndReason({ from: 'connected', to: 'idle', event: 'ended' })).toBe('terminated');
+    expect(sessionEndReason({ from: 'connected', to: 'connecting', event: 'connect' })).toBe('replaced');
+    expect(sessionEndReason({ from: 'reconnecting', to: 'error', event: 'fail' })).toBe('error');
+    expect(sessionEndReason({ from: 'connected', to: 'reconnecting', event: 'connectionLost' })).toBeNull();
+    expect(sessionEndReason({ from: 'connected', to: 'connecting', event: 'connecting' })).toBeNull();
+  });
+});
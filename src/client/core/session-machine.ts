@@ -0,0 +1,147 @@
+/**
+ * Cast session state machine
+ *
+ * This module defines the statuses a cast session goes through and the
+ * events that move it between them. Transitions that aren't listed are
+ * rejected, so the client can't end up casting and connecting at once.
+ */
+
+import type { CastSessionStatus, CastState, SessionEndReason, SessionEvent, SessionTransition } from './types';
+
+/**
+ * Status each event leads to from each status
+ */
+export const SESSION_TRANSITIONS: Readonly<
+  Record<CastSessionStatus, Readonly<Partial<Record<SessionEvent, CastSessionStatus>>>>
+> = {
+  idle: {
+    scan: 'scanning',
+    connect: 'connecting',
+    // Sessions started by the host or found after a page reload
+    connecting: 'connecting',
+    connected: 'connected',
+  },
+  scanning: {
+    scan: 'scanning',
+    scanComplete: 'idle',
+    connect: 'connecting',
+    fail: 'error',
+  },
+  connecting: {
+    // Casting to another device before this one connects
+    connect: 'connecting',
+    connecting: 'connecting',
+    connected: 'connected',
+    connectionLost: 'reconnecting',
+    ended: 'idle',
+    fail: 'error',
+  },
+  connected: {
+    // Casting to another device
+    connect: 'connecting',
+    connecting: 'connecting',
+    // The host may report the session again, e.g. with a new ID after resuming
+    connected: 'connected',
+    connectionLost: 'reconnecting',
+    end: 'ending',
+    ended: 'idle',
+    fail: 'error',
+  },
+  reconnecting: {
+    // Casting to another device instead
+    connect: 'connecting',
+    connected: 'connected',
+    ended: 'idle',
+    fail: 'error',
+  },
+  ending: {
+    ended: 'idle',
+    fail: 'error',
+  },
+  error: {
+    scan: 'scanning',
+    connect: 'connecting',
+    connecting: 'connecting',
+    connected: 'connected',
+    reset: 'idle',
+  },
+};
+
+/**
+ * Get the CastState flags for a session status
+ */
+export function sessionFlags(
+  status: CastSessionStatus
+): Pick<CastState, 'isScanning' | 'isConnecting' | 'isReconnecting' | 'isCasting'> {
+  return {
+    isScanning: status === 'scanning',
+    isConnecting: status === 'connecting',
+    isReconnecting: status === 'reconnecting',
+    isCasting: status === 'connected' || status === 'ending',
+  };
+}
+
+/**
+ * Check whether a session is underway in a status
+ *
+ * The state has no error while a session is underway.
+ */
+export function isSessionActive(status: CastSessionStatus): boolean {
+  return status === 'connecting' || status === 'connected' || status === 'reconnecting' || status === 'ending';
+}
+
+/**
+ * Get why a transition ends the current session, or null when it doesn't
+ */
+export function sessionEndReason({ from, to, event }: SessionTransition): SessionEndReason | null {
+  if (event === 'connect') return 'replaced';
+  if (to === 'error') return 'error';
+  if (to !== 'idle') return null;
+
+  // Only the game ends a session that is ending or being resumed
+  return from === 'ending' || from === 'reconnecting' ? 'stopped' : 'terminated';
+}
+
+/**
+ * Finite state machine for the cast session
+ */
+export class SessionMachine {
+  private current: CastSessionStatus;
+
+  constructor(status: CastSessionStatus = 'idle') {
+    this.current = status;
+  }
+
+  /**
+   * Current status
+   */
+  public get status(): CastSessionStatus {
+    return this.current;
+  }
+
+  /**
+   * Check whether an event is allowed in the current status
+   */
+  public can(event: SessionEvent): boolean {
+    return SESSION_TRANSITIONS[this.current][event] !== undefined;
+  }
+
+  /**
+   * Apply an event
+   *
+   * Returns the transition, or null when the event isn't allowed in the
+   * current status.
+   */
+  public transition(event: SessionEvent): SessionTransition | null {
+    const to = SESSION_TRANSITIONS[this.current][event];
+
+    if (to === undefined) {
+      return null;
+    }
+
+    const transition: SessionTransition = { from: this.current, to, event };
+    this.current = to;
+
+    return transition;
+  }
+}
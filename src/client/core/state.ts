@@ -9,14 +9,26 @@ import { CastState } from './types';
  */
 export const initialState: CastState = {
   isAvailable: false,
+  sessionStatus: 'idle',
+  session: null,
+  sessionHistory: [],
   isCasting: false,
   isConnecting: false,
+  isReconnecting: false,
   isScanning: false,
   deviceName: null,
   deviceId: null,
   sessionId: null,
   devices: [],
   error: null,
+  protocolVersion: null,
+  features: [],
+  environment: {
+    available: [],
+    backend: null,
+  },
+  lastConfirmedSeq: null,
+  inFlightSeqs: 0,
 };
 
 /**
@@ -85,6 +97,14 @@ export class StateManager<T> {
     };
   }
 
+  /**
+   * Remove every listener
+   */
+  public dispose(): void {
+    this.listeners.clear();
+    this.selectors.clear();
+  }
+
   /**
    * Subscribe to a specific slice of state
    */
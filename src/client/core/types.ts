@@ -2,6 +2,12 @@
  * Core client types for Cast Kit
  */
 
+import type { CastBackendType, CastEnvironment } from '../bridge/environment';
+import type { GoogleCastBackendOptions } from '../bridge/google-cast-backend';
+import type { PresentationApiBackendOptions } from '../bridge/presentation-backend';
+import type { CastFeature } from '../bridge/protocol';
+import type { Bridge } from '../bridge/webview-bridge';
+
 /**
  * Cast device representation
  */
@@ -29,8 +35,65 @@ export interface CastDevice {
 
 /**
  * Cast session status
+ * 
+ * The session moves between statuses through SessionEvents:
+ * idle → scanning → connecting → connected → reconnecting → ending → idle,
+ * and error when scanning, connecting or the session fails.
  */
-export type CastSessionStatus = 'connecting' | 'connected' | 'terminated' | 'error';
+export type CastSessionStatus =
+  | 'idle'
+  | 'scanning'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'ending'
+  | 'error';
+
+/**
+ * Events that move the session between statuses
+ * 
+ * - 'scan': the game starts scanning for devices
+ * - 'scanComplete': the host reports the devices found
+ * - 'connect': the game starts casting to a device
+ * - 'connecting': the host reports the session as connecting
+ * - 'connected': the host reports the session as connected
+ * - 'connectionLost': the session dropped and the client tries to resume it
+ * - 'end': the game stops casting
+ * - 'ended': the session is over
+ * - 'fail': scanning, connecting or the session failed
+ * - 'reset': the game clears the error
+ */
+export type SessionEvent =
+  | 'scan'
+  | 'scanComplete'
+  | 'connect'
+  | 'connecting'
+  | 'connected'
+  | 'connectionLost'
+  | 'end'
+  | 'ended'
+  | 'fail'
+  | 'reset';
+
+/**
+ * A change of session status
+ */
+export interface SessionTransition {
+  /**
+   * Status before the event
+   */
+  from: CastSessionStatus;
+  
+  /**
+   * Status after the event
+   */
+  to: CastSessionStatus;
+  
+  /**
+   * Event that caused the change
+   */
+  event: SessionEvent;
+}
 
 /**
  * Cast session representation
@@ -67,6 +130,156 @@ export interface CastSession {
   error?: string;
 }
 
+/**
+ * Why a cast session ended
+ * 
+ * - 'stopped': the game stopped casting
+ * - 'terminated': the host or the TV ended the session
+ * - 'replaced': the game started casting to another device
+ * - 'error': the session failed, or couldn't be resumed
+ */
+export type SessionEndReason = 'stopped' | 'terminated' | 'replaced' | 'error';
+
+/**
+ * A cast session that has ended
+ */
+export interface CastSessionRecord {
+  /**
+   * ID of the session
+   */
+  sessionId: string;
+  
+  /**
+   * ID of the device the session was on
+   */
+  deviceId: string;
+  
+  /**
+   * Name of the device the session was on
+   */
+  deviceName: string;
+  
+  /**
+   * When the session was connected
+   */
+  createdAt: number;
+  
+  /**
+   * When the session ended
+   */
+  endedAt: number;
+  
+  /**
+   * How long the session lasted in milliseconds
+   */
+  duration: number;
+  
+  /**
+   * Why the session ended
+   */
+  endReason: SessionEndReason;
+  
+  /**
+   * Error message if the session ended with an error
+   */
+  error?: string;
+}
+
+/**
+ * Events emitted by the client and their payloads
+ */
+export interface CastClientEvents {
+  /**
+   * A cast session connected, not emitted when a lost session is resumed
+   */
+  sessionStarted: {
+    /**
+     * The session that started
+     */
+    session: CastSession;
+  };
+  
+  /**
+   * A cast session ended
+   */
+  sessionEnded: {
+    /**
+     * Why the session ended
+     */
+    reason: SessionEndReason;
+    
+    /**
+     * The session that ended, as added to the session history
+     */
+    session: CastSessionRecord;
+  };
+  
+  /**
+   * The host reported the available devices
+   */
+  devicesChanged: {
+    /**
+     * Available devices
+     */
+    devices: CastDevice[];
+  };
+  
+  /**
+   * The receiver confirmed the state updates up to a sequence number
+   */
+  stateConfirmed: {
+    /**
+     * Sequence number of the newest confirmed state update
+     */
+    seq: number;
+  };
+  
+  /**
+   * An error was set in the state, or a running session hit an error
+   */
+  error: {
+    /**
+     * The error
+     */
+    error: CastError;
+  };
+  
+  /**
+   * The receiver page sent a message to the game
+   */
+  receiverMessage: ReceiverMessageEvent;
+}
+
+/**
+ * Message sent by the receiver page with `receiver.send()`
+ */
+export interface ReceiverMessageEvent {
+  /**
+   * Type of the message, chosen by the game
+   */
+  type: string;
+  
+  /**
+   * Data sent with the message
+   */
+  payload: Record<string, unknown>;
+  
+  /**
+   * When the receiver sent the message
+   */
+  timestamp?: number;
+}
+
+/**
+ * Name of a client event
+ */
+export type CastClientEvent = keyof CastClientEvents;
+
+/**
+ * Listener to a client event
+ */
+export type CastClientEventListener<E extends CastClientEvent> = (payload: CastClientEvents[E]) => void;
+
 /**
  * Cast error representation
  */
@@ -96,6 +309,26 @@ export interface CastState {
    */
   isAvailable: boolean;
   
+  /**
+   * Current status of the session state machine, the flags below are derived from it
+   * 
+   * Kept outside `session` since the machine also has a status without a
+   * session, e.g. while scanning.
+   */
+  sessionStatus: CastSessionStatus;
+  
+  /**
+   * Current cast session, from when it connects until it ends
+   * 
+   * Its `status` is always the same as `sessionStatus`.
+   */
+  session: CastSession | null;
+  
+  /**
+   * Past cast sessions, newest first
+   */
+  sessionHistory: CastSessionRecord[];
+  
   /**
    * Whether a cast session is active
    */
@@ -106,6 +339,11 @@ export interface CastState {
    */
   isConnecting: boolean;
   
+  /**
+   * Whether the client is trying to resume a lost cast session
+   */
+  isReconnecting: boolean;
+  
   /**
    * Whether the client is scanning for devices
    */
@@ -133,8 +371,36 @@ export interface CastState {
   
   /**
    * Current error (if any)
+   * 
+   * Only set while no session is underway, errors that a running session
+   * survives are emitted as 'error' events instead.
    */
   error: CastError | null;
+  
+  /**
+   * Protocol version reported by the host (null until signalReady completes)
+   */
+  protocolVersion: number | null;
+  
+  /**
+   * Features negotiated with the host
+   */
+  features: CastFeature[];
+  
+  /**
+   * Casting backends found in the page and the one in use
+   */
+  environment: CastEnvironment;
+  
+  /**
+   * Sequence number of the newest state update confirmed by the host
+   */
+  lastConfirmedSeq: number | null;
+  
+  /**
+   * Number of state updates sent after lastConfirmedSeq that aren't confirmed yet
+   */
+  inFlightSeqs: number;
 }
 
 /**
@@ -170,6 +436,205 @@ export interface CastOptions {
    * Initial state to send to the cast session
    */
   initialState?: Record<string, unknown>;
+  
+  /**
+   * Name the receiver shows for this sender, e.g. the player's name
+   */
+  senderName?: string;
+}
+
+/**
+ * How state updates are sent to the receiver
+ * 
+ * - 'snapshot': each update is sent as is and merged by the receiver
+ * - 'patch': each update is sent as a JSON Patch against the last confirmed state
+ */
+export type StateSyncMode = 'snapshot' | 'patch';
+
+/**
+ * When queued state updates are sent
+ * 
+ * - 'immediate': each update is sent right away as its own message
+ * - 'leading': an update is sent right away, updates made within the rate limit
+ *   or while it is in flight are merged and sent after it
+ * - 'trailing': updates are merged and sent at the end of each rate limit window
+ * - 'animationFrame': updates are merged and sent before the next animation frame
+ */
+export type StateUpdateMode = 'immediate' | 'leading' | 'trailing' | 'animationFrame';
+
+/**
+ * State update scheduler options
+ */
+export interface StateUpdateSchedulerOptions {
+  /**
+   * When queued state updates are sent
+   * @default 'immediate'
+   */
+  mode?: StateUpdateMode;
+  
+  /**
+   * Maximum number of state update messages per second, not used by the 'immediate' mode
+   */
+  maxRate?: number;
+}
+
+/**
+ * State update scheduler statistics
+ */
+export interface StateUpdateStats {
+  /**
+   * Number of state updates waiting to be sent, including the ones queued while reconnecting
+   */
+  queued: number;
+  
+  /**
+   * Number of state updates merged into a later one instead of being sent on their own
+   */
+  merged: number;
+  
+  /**
+   * Number of state updates rejected while reconnecting because the offline
+   * queue was full or they expired
+   */
+  dropped: number;
+  
+  /**
+   * Number of state update messages sent
+   */
+  sent: number;
+}
+
+/**
+ * Reconnect policy for lost cast sessions
+ * 
+ * The delay before attempt n is initialDelay * backoffFactor^(n - 1), capped
+ * at maxDelay and reduced by a random fraction of up to jitter.
+ */
+export interface ReconnectOptions {
+  /**
+   * Maximum number of attempts to resume the session
+   * @default 5
+   */
+  maxAttempts?: number;
+  
+  /**
+   * Delay in milliseconds before the first attempt
+   * @default 1000
+   */
+  initialDelay?: number;
+  
+  /**
+   * Maximum delay in milliseconds between attempts
+   * @default 30000
+   */
+  maxDelay?: number;
+  
+  /**
+   * Factor the delay grows by after each attempt
+   * @default 2
+   */
+  backoffFactor?: number;
+  
+  /**
+   * Fraction of the delay, between 0 and 1, that is randomly taken off
+   * @default 0.5
+   */
+  jitter?: number;
+}
+
+/**
+ * Cast session saved across page reloads
+ */
+export interface PersistedSession {
+  /**
+   * ID of the session
+   */
+  sessionId: string;
+  
+  /**
+   * ID of the device the session is on
+   */
+  deviceId: string;
+  
+  /**
+   * Name of the device the session is on
+   */
+  deviceName: string | null;
+  
+  /**
+   * Last game state sent to the session
+   */
+  gameState: Record<string, unknown>;
+  
+  /**
+   * Sequence number of the last state update sent
+   */
+  seq: number;
+  
+  /**
+   * Version of the game state the receiver was last known to have
+   */
+  version: number;
+  
+  /**
+   * When the session was connected
+   */
+  createdAt: number;
+  
+  /**
+   * When the session was saved
+   */
+  savedAt: number;
+}
+
+/**
+ * Storage for the active cast session
+ * 
+ * Methods may return promises for asynchronous storage.
+ */
+export interface CastPersistence {
+  /**
+   * Load the saved session, if any
+   */
+  load(): PersistedSession | null | Promise<PersistedSession | null>;
+  
+  /**
+   * Save the active session
+   */
+  save(session: PersistedSession): void | Promise<void>;
+  
+  /**
+   * Remove the saved session
+   */
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Offline queue options
+ */
+export interface OfflineQueueOptions {
+  /**
+   * Maximum number of state updates to queue, the oldest is evicted beyond it
+   * @default 100
+   */
+  maxSize?: number;
+  
+  /**
+   * Maximum time in milliseconds a state update is kept in the queue
+   * @default 30000
+   */
+  maxAge?: number;
+}
+
+/**
+ * Options for disposing of a client
+ */
+export interface DisposeOptions {
+  /**
+   * End the active cast session instead of leaving it running on the TV
+   * @default false
+   */
+  endSession?: boolean;
 }
 
 /**
@@ -180,6 +645,73 @@ export interface CastClientOptions {
    * Debug mode
    */
   debug?: boolean;
+  
+  /**
+   * Bridge used to talk to the host, overrides the backend selection
+   */
+  bridge?: Bridge;
+  
+  /**
+   * Backend to use, or 'auto' to pick the best one available
+   * @default 'auto'
+   */
+  backend?: CastBackendType | 'auto';
+  
+  /**
+   * Options for the Google Cast backend, which is only picked when set
+   */
+  googleCast?: GoogleCastBackendOptions;
+  
+  /**
+   * Options for the Presentation API backend
+   */
+  presentation?: PresentationApiBackendOptions;
+  
+  /**
+   * Origins allowed to send messages to the OpenGame App bridge
+   * @default any origin
+   */
+  allowedOrigins?: string[];
+  
+  /**
+   * Shared secret the OpenGame App signs each message with (HMAC-SHA256)
+   * 
+   * When set, unsigned messages and messages with an invalid signature are dropped.
+   */
+  secret?: string;
+  
+  /**
+   * How state updates are sent to the receiver
+   * @default 'snapshot'
+   */
+  stateSync?: StateSyncMode;
+  
+  /**
+   * How often state updates are sent to the receiver
+   */
+  stateUpdates?: StateUpdateSchedulerOptions;
+  
+  /**
+   * Queue state updates while the session is reconnecting instead of failing,
+   * pass true to use the default limits
+   */
+  offlineQueue?: boolean | OfflineQueueOptions;
+  
+  /**
+   * Try to resume the session when it is lost, pass true to use the default policy
+   */
+  reconnect?: boolean | ReconnectOptions;
+  
+  /**
+   * Where to save the active session so the game can reattach to it after a page reload
+   */
+  persistence?: 'localStorage' | 'sessionStorage' | CastPersistence;
+  
+  /**
+   * Number of past sessions kept in sessionHistory
+   * @default 10
+   */
+  sessionHistorySize?: number;
 }
 
 /**
@@ -196,6 +728,26 @@ export interface CastClient {
    */
   subscribe(listener: (state: CastState) => void): () => void;
   
+  /**
+   * Get the current cast session, if any
+   */
+  getSession(): CastSession | null;
+  
+  /**
+   * Subscribe to session status changes
+   */
+  onSessionTransition(listener: (transition: SessionTransition) => void): () => void;
+  
+  /**
+   * Listen to a client event, returns a function that removes the listener
+   */
+  on<E extends CastClientEvent>(event: E, listener: CastClientEventListener<E>): () => void;
+  
+  /**
+   * Handle messages sent by the receiver page, returns a function that removes the handler
+   */
+  onReceiverMessage(handler: (message: ReceiverMessageEvent) => void): () => void;
+  
   /**
    * Signal that the game is ready to cast
    */
@@ -221,11 +773,25 @@ export interface CastClient {
    */
   sendStateUpdate(state: Record<string, unknown>): Promise<void>;
   
+  /**
+   * Get the state update scheduler statistics
+   */
+  getUpdateStats(): StateUpdateStats;
+  
   /**
    * Reset any error in the current state
    */
   resetError(): void;
   
+  /**
+   * Stop the client: tear down the bridge, reject pending requests and
+   * remove every listener
+   * 
+   * The session keeps running on the TV unless endSession is set, so a
+   * persisted session can be reattached to by the next client.
+   */
+  dispose(options?: DisposeOptions): Promise<void>;
+  
   /**
    * Get the list of debug logs (if debug mode is enabled)
    */
@@ -16,7 +16,123 @@ export {
     type CastDevice,
     type CastSession,
     type CastSessionStatus,
+    type SessionEvent,
+    type SessionTransition,
+    type SessionEndReason,
+    type CastSessionRecord,
+    type CastClientEvents,
+    type CastClientEvent,
+    type CastClientEventListener,
+    type ReceiverMessageEvent,
     type CastError,
     type SignalReadyParams,
-    type CastOptions
-} from './core/types'; 
\ No newline at end of file
+    type CastOptions,
+    type StateSyncMode,
+    type StateUpdateMode,
+    type StateUpdateSchedulerOptions,
+    type StateUpdateStats,
+    type OfflineQueueOptions,
+    type ReconnectOptions,
+    type CastPersistence,
+    type PersistedSession
+} from './core/types';
+
+export {
+    StateUpdateScheduler,
+    type SendStateUpdate
+} from './core/scheduler';
+
+export {
+    SessionMachine,
+    SESSION_TRANSITIONS,
+    sessionFlags,
+    sessionEndReason
+} from './core/session-machine';
+
+export { OfflineQueue } from './core/offline-queue';
+
+export {
+    createStoragePersistence,
+    DEFAULT_PERSISTENCE_KEY
+} from './core/persistence';
+
+export { CastKitError } from './core/errors';
+
+export {
+    createPatch,
+    applyPatch,
+    type JsonPatchOperation
+} from './core/json-patch';
+
+// Export bridges and transports for custom host shells
+export {
+    WebViewBridge,
+    createWebViewBridge,
+    isInOpenGameApp,
+    type Bridge,
+    type WebViewBridgeOptions
+} from './bridge/webview-bridge';
+
+export {
+    signMessage,
+    verifyMessageSignature
+} from './bridge/signing';
+
+export {
+    WebSocketBridge,
+    createWebSocketBridge,
+    type WebSocketBridgeOptions,
+    type WebSocketBridgeStatus,
+    type WebSocketReconnectOptions
+} from './bridge/websocket-bridge';
+
+export {
+    HostBackend,
+    type HostBackendOptions
+} from './bridge/host-backend';
+
+export {
+    GoogleCastBackend,
+    createGoogleCastBackend,
+    type GoogleCastBackendOptions
+} from './bridge/google-cast-backend';
+
+export {
+    PresentationApiBackend,
+    createPresentationApiBackend,
+    type PresentationApiBackendOptions
+} from './bridge/presentation-backend';
+
+export {
+    detectBackends,
+    createBackendBridge,
+    CAST_BACKENDS,
+    type CastBackendType,
+    type CastEnvironment,
+    type BackendBridgeOptions
+} from './bridge/environment';
+
+export {
+    createWindowTransport,
+    createReactNativeTransport,
+    createWebKitTransport,
+    createAndroidTransport,
+    createMessagePortTransport,
+    type BridgeTransport,
+    type WindowTransportOptions,
+    type WebKitTransportOptions,
+    type AndroidTransportOptions
+} from './bridge/transports';
+
+export {
+    PROTOCOL_VERSION,
+    CAST_FEATURES,
+    DEFAULT_CAST_NAMESPACE,
+    receiverMessageSchema,
+    toReceiverMessage,
+    type CastFeature,
+    type CastReceiverMessage,
+    type CastStateResyncMessage,
+    type ReceiverMessage,
+    type ReceiverReply
+} from './bridge/protocol'; 
\ No newline at end of file
@@ -2,7 +2,22 @@
  * Mock client creation for testing purposes
  */
 import { CastClient } from '../client/core/client';
-import { CastState, CastDevice, CastError, SignalReadyParams, CastOptions } from '../client/core/types';
+import {
+  CastState,
+  CastDevice,
+  CastError,
+  CastSessionStatus,
+  SessionEvent,
+  SessionTransition,
+  CastSessionRecord,
+  CastClientEvent,
+  CastClientEvents,
+  CastClientEventListener,
+  SignalReadyParams,
+  CastOptions
+} from '../client/core/types';
+import { sessionFlags } from '../client/core/session-machine';
+import { PROTOCOL_VERSION, CAST_FEATURES } from '../client/bridge/protocol';
 
 /**
  * Log message format
@@ -36,14 +51,23 @@ export function createMockClient(options: MockClientOptions = {}): CastClient {
   // Create initial state with defaults
   const initialState: CastState = {
     isAvailable: true,
+    sessionStatus: 'idle',
+    session: null,
+    sessionHistory: [],
     isCasting: false,
     isConnecting: false,
+    isReconnecting: false,
     isScanning: false,
     deviceName: null,
     deviceId: null,
     sessionId: null,
     devices: [],
     error: null,
+    protocolVersion: PROTOCOL_VERSION,
+    features: [...CAST_FEATURES],
+    environment: { available: ['opengame'], backend: 'opengame' },
+    lastConfirmedSeq: null,
+    inFlightSeqs: 0,
     ...options.initialState
   };
   
@@ -53,6 +77,12 @@ export function createMockClient(options: MockClientOptions = {}): CastClient {
   // Listeners
   const listeners: Array<(state: CastState) => void> = [];
   
+  // Session transition listeners
+  const transitionListeners: Array<(transition: SessionTransition) => void> = [];
+  
+  // Client event listeners
+  const eventListeners = new Map<CastClientEvent, Set<CastClientEventListener<never>>>();
+  
   // Logs
   const logs: LogMessage[] = [];
   
@@ -83,10 +113,37 @@ export function createMockClient(options: MockClientOptions = {}): CastClient {
     notifyListeners();
   };
   
+  // Move the session to a status and notify transition listeners
+  const setStatus = (status: CastSessionStatus, event: SessionEvent, newState: Partial<CastState> = {}) => {
+    const from = state.sessionStatus;
+    setState({
+      session: state.session && { ...state.session, status },
+      ...newState,
+      ...sessionFlags(status),
+      sessionStatus: status
+    });
+    
+    if (from !== status) {
+      for (const listener of transitionListeners) {
+        listener({ from, to: status, event });
+      }
+    }
+  };
+  
+  // Call the listeners to a client event
+  const emit = <E extends CastClientEvent>(event: E, payload: CastClientEvents[E]) => {
+    const listenersForEvent = eventListeners.get(event) as Set<CastClientEventListener<E>> | undefined;
+    
+    for (const listener of listenersForEvent ?? []) {
+      listener(payload);
+    }
+  };
+  
   // Simulate an error
   const _setError = (code: string, message: string, details?: Record<string, unknown>) => {
     const error: CastError = { code, message, details };
     setState({ error });
+    emit('error', { error });
     log('ERROR', message, error);
   };
   
@@ -105,6 +162,32 @@ export function createMockClient(options: MockClientOptions = {}): CastClient {
       };
     },
     
+    getSession: () => (state.session ? { ...state.session } : null),
+    
+    on: (event, listener) => {
+      let listenersForEvent = eventListeners.get(event);
+      if (!listenersForEvent) {
+        listenersForEvent = new Set();
+        eventListeners.set(event, listenersForEvent);
+      }
+      listenersForEvent.add(listener);
+      return () => {
+        listenersForEvent.delete(listener);
+      };
+    },
+    
+    onReceiverMessage: (handler) => client.on('receiverMessage', handler),
+    
+    onSessionTransition: (listener) => {
+      transitionListeners.push(listener);
+      return () => {
+        const index = transitionListeners.indexOf(listener);
+        if (index !== -1) {
+          transitionListeners.splice(index, 1);
+        }
+      };
+    },
+    
     // Core functionality
     signalReady: async (params: SignalReadyParams) => {
       log('INFO', 'Signaling ready', params);
@@ -113,7 +196,7 @@ export function createMockClient(options: MockClientOptions = {}): CastClient {
     
     scanForDevices: async () => {
       log('INFO', 'Scanning for devices');
-      setState({ isScanning: true });
+      setStatus('scanning', 'scan');
       
       // Simulate a delay
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -124,51 +207,70 @@ export function createMockClient(options: MockClientOptions = {}): CastClient {
         { id: 'mock-device-2', name: 'Mock TV 2', type: 'chromecast', isConnected: false }
       ];
       
-      setState({
-        devices,
-        isScanning: false
-      });
+      setStatus('idle', 'scanComplete', { devices });
+      emit('devicesChanged', { devices });
       
       log('INFO', 'Devices found', devices);
     },
     
     startCasting: async (deviceId: string, options: CastOptions = {}) => {
       log('INFO', 'Starting casting', { deviceId, options });
-      setState({ 
-        isConnecting: true,
-        isCasting: false
-      });
+      setStatus('connecting', 'connect');
       
       // Simulate a delay
       await new Promise(resolve => setTimeout(resolve, 500));
       
       // Success case
       const device = state.devices.find(d => d.id === deviceId);
+      const sessionId = `mock-session-${Date.now()}`;
+      const deviceName = device?.name || 'Unknown Device';
       
-      setState({
-        isConnecting: false,
-        isCasting: true,
+      const session = { sessionId, status: 'connected' as const, deviceId, deviceName, createdAt: Date.now() };
+      
+      setStatus('connected', 'connected', {
         deviceId,
-        deviceName: device?.name || 'Unknown Device',
-        sessionId: `mock-session-${Date.now()}`
+        deviceName,
+        sessionId,
+        session
       });
+      emit('sessionStarted', { session: { ...session } });
       
       log('INFO', 'Casting started', { deviceId, deviceName: state.deviceName });
     },
     
     stopCasting: async () => {
       log('INFO', 'Stopping casting');
+      setStatus('ending', 'end');
       
       // Simulate a delay
       await new Promise(resolve => setTimeout(resolve, 200));
       
-      setState({
-        isCasting: false,
+      const { session } = state;
+      const endedAt = Date.now();
+      const record: CastSessionRecord | null = session
+        ? {
+            sessionId: session.sessionId,
+            deviceId: session.deviceId,
+            deviceName: session.deviceName,
+            createdAt: session.createdAt,
+            endedAt,
+            duration: endedAt - session.createdAt,
+            endReason: 'stopped'
+          }
+        : null;
+      
+      setStatus('idle', 'ended', {
+        session: null,
+        sessionHistory: record ? [record, ...state.sessionHistory] : state.sessionHistory,
         deviceName: null,
         deviceId: null,
         sessionId: null
       });
       
+      if (record) {
+        emit('sessionEnded', { reason: record.endReason, session: record });
+      }
+      
       log('INFO', 'Casting stopped');
     },
     
@@ -181,12 +283,29 @@ export function createMockClient(options: MockClientOptions = {}): CastClient {
       log('INFO', 'State update sent');
     },
     
+    getUpdateStats: () => ({ queued: 0, merged: 0, dropped: 0, sent: 0 }),
+    
     resetError: () => {
       setState({ error: null });
+      if (state.sessionStatus === 'error') {
+        setStatus('idle', 'reset');
+      }
       log('INFO', 'Error reset');
     },
     
-    getLogs: () => [...logs]
+    getLogs: () => [...logs],
+    
+    dispose: async (disposeOptions = {}) => {
+      log('INFO', 'Disposing', disposeOptions);
+      
+      if (disposeOptions.endSession && state.sessionId) {
+        await client.stopCasting();
+      }
+      
+      listeners.length = 0;
+      transitionListeners.length = 0;
+      eventListeners.clear();
+    }
   };
   
   return client;
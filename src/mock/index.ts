@@ -7,8 +7,17 @@
 import { 
     CastClient, 
     CastState,
+    CastSessionStatus,
+    SessionEvent,
+    SessionTransition,
+    CastSessionRecord,
+    CastClientEvent,
+    CastClientEvents,
+    CastClientEventListener,
     SignalReadyParams, 
-    CastOptions
+    CastOptions,
+    PROTOCOL_VERSION,
+    CAST_FEATURES
 } from '../client';
 
 /**
@@ -30,6 +39,11 @@ export interface MockClientExtensions {
          * Clear method call history
          */
         clearMethodCalls(): void;
+        
+        /**
+         * Simulate a message from the receiver page
+         */
+        receiveMessage(type: string, payload?: Record<string, unknown>): void;
     };
 }
 
@@ -61,13 +75,22 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
     // Create initial state by merging defaults with provided options
     const initialState: CastState = {
         isAvailable: true,
+        sessionStatus: 'idle',
+        session: null,
+        sessionHistory: [],
         isCasting: false,
         isConnecting: false,
+        isReconnecting: false,
         isScanning: false,
         deviceName: null,
         deviceId: null,
         sessionId: null,
         error: null,
+        protocolVersion: PROTOCOL_VERSION,
+        features: [...CAST_FEATURES],
+        environment: { available: ['opengame'], backend: 'opengame' },
+        lastConfirmedSeq: null,
+        inFlightSeqs: 0,
         devices: [
             { id: 'device-1', name: 'Living Room TV', type: 'chromecast', isConnected: false },
             { id: 'device-2', name: 'Bedroom TV', type: 'chromecast', isConnected: false }
@@ -83,13 +106,24 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
         stopCasting: [],
         sendStateUpdate: [],
         resetError: [],
+        dispose: [],
         subscribe: [],
+        getSession: [],
+        onSessionTransition: [],
+        on: [],
+        onReceiverMessage: [],
         getState: []
     };
     
     // Create listeners array
     const listeners: Array<(state: CastState) => void> = [];
     
+    // Create session transition listeners array
+    const transitionListeners: Array<(transition: SessionTransition) => void> = [];
+    
+    // Create client event listeners map
+    const eventListeners = new Map<CastClientEvent, Set<CastClientEventListener<never>>>();
+    
     // Debug logs
     const logs: Array<{timestamp: number, type: string, message: string, data?: unknown}> = [];
     
@@ -105,6 +139,52 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
         }
     };
     
+    /**
+     * Move the session to a status and notify transition listeners
+     */
+    const moveTo = (status: CastSessionStatus, event: SessionEvent) => {
+        const from = state.sessionStatus;
+        
+        state = {
+            ...state,
+            sessionStatus: status,
+            session: state.session && { ...state.session, status }
+        };
+        
+        if (from === status) return;
+        
+        for (const listener of transitionListeners) {
+            listener({ from, to: status, event });
+        }
+    };
+    
+    /**
+     * Call the listeners to a client event
+     */
+    const emit = <E extends CastClientEvent>(event: E, payload: CastClientEvents[E]) => {
+        const eventListenersForEvent = eventListeners.get(event) as Set<CastClientEventListener<E>> | undefined;
+        
+        for (const listener of eventListenersForEvent ?? []) {
+            listener(payload);
+        }
+    };
+    
+    /**
+     * Add a listener to a client event
+     */
+    const listen = <E extends CastClientEvent>(event: E, listener: CastClientEventListener<E>) => {
+        let listenersForEvent = eventListeners.get(event);
+        if (!listenersForEvent) {
+            listenersForEvent = new Set();
+            eventListeners.set(event, listenersForEvent);
+        }
+        listenersForEvent.add(listener);
+        
+        return () => {
+            listenersForEvent.delete(listener);
+        };
+    };
+    
     /**
      * Track a method call
      */
@@ -156,6 +236,33 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             };
         },
         
+        getSession: () => {
+            trackMethodCall('getSession');
+            return state.session ? { ...state.session } : null;
+        },
+        
+        on: (event, listener) => {
+            trackMethodCall('on', event, listener);
+            return listen(event, listener);
+        },
+        
+        onReceiverMessage: (handler) => {
+            trackMethodCall('onReceiverMessage', handler);
+            return listen('receiverMessage', handler);
+        },
+        
+        onSessionTransition: (listener) => {
+            trackMethodCall('onSessionTransition', listener);
+            transitionListeners.push(listener);
+            
+            return () => {
+                const index = transitionListeners.indexOf(listener);
+                if (index !== -1) {
+                    transitionListeners.splice(index, 1);
+                }
+            };
+        },
+        
         signalReady: async (params: SignalReadyParams) => {
             trackMethodCall('signalReady', params);
             log('info', 'Signal ready', params);
@@ -180,6 +287,7 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             trackMethodCall('scanForDevices');
             log('info', 'Scanning for devices');
             
+            moveTo('scanning', 'scan');
             state = {
                 ...state,
                 isScanning: true
@@ -190,6 +298,7 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             await delay();
             
             if (options.simulateError === 'scanForDevices') {
+                moveTo('error', 'fail');
                 state = {
                     ...state,
                     isScanning: false,
@@ -205,6 +314,7 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
                 throw new Error('Simulated scanForDevices error');
             }
             
+            moveTo('idle', 'scanComplete');
             state = {
                 ...state,
                 isScanning: false
@@ -225,6 +335,7 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
                 throw new Error(`Device with ID ${deviceId} not found`);
             }
             
+            moveTo('connecting', 'connect');
             state = {
                 ...state,
                 isConnecting: true,
@@ -237,6 +348,7 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             await delay();
             
             if (options.simulateError === 'startCasting') {
+                moveTo('error', 'fail');
                 state = {
                     ...state,
                     isConnecting: false,
@@ -254,11 +366,21 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
                 throw new Error('Simulated startCasting error');
             }
             
+            const sessionId = `session-${Date.now()}`;
+            
+            moveTo('connected', 'connected');
             state = {
                 ...state,
                 isCasting: true,
                 isConnecting: false,
-                sessionId: `session-${Date.now()}`,
+                sessionId,
+                session: {
+                    sessionId,
+                    status: 'connected',
+                    deviceId,
+                    deviceName: device.name,
+                    createdAt: Date.now()
+                },
                 devices: state.devices.map(d => 
                     d.id === deviceId 
                         ? { ...d, isConnected: true } 
@@ -267,6 +389,10 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             };
             
             notifyListeners();
+            
+            if (state.session) {
+                emit('sessionStarted', { session: { ...state.session } });
+            }
         },
         
         stopCasting: async () => {
@@ -281,24 +407,38 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             await delay();
             
             if (options.simulateError === 'stopCasting') {
-                state = {
-                    ...state,
+                // The session keeps running, so the error isn't kept in the state
+                emit('error', {
                     error: {
                         code: 'STOP_ERROR',
                         message: 'Simulated stopCasting error'
                     }
-                };
-                
-                notifyListeners();
+                });
                 
                 log('error', 'Stop casting failed');
                 throw new Error('Simulated stopCasting error');
             }
             
             const deviceId = state.deviceId;
+            const session = state.session;
+            const endedAt = Date.now();
+            const record: CastSessionRecord | null = session
+                ? {
+                    sessionId: session.sessionId,
+                    deviceId: session.deviceId,
+                    deviceName: session.deviceName,
+                    createdAt: session.createdAt,
+                    endedAt,
+                    duration: endedAt - session.createdAt,
+                    endReason: 'stopped'
+                }
+                : null;
             
+            moveTo('idle', 'ended');
             state = {
                 ...state,
+                session: null,
+                sessionHistory: record ? [record, ...state.sessionHistory] : state.sessionHistory,
                 isCasting: false,
                 isConnecting: false,
                 deviceId: null,
@@ -312,6 +452,10 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             };
             
             notifyListeners();
+            
+            if (record) {
+                emit('sessionEnded', { reason: record.endReason, session: record });
+            }
         },
         
         sendStateUpdate: async (stateData: Record<string, unknown>) => {
@@ -326,25 +470,30 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             await delay();
             
             if (options.simulateError === 'sendStateUpdate') {
-                state = {
-                    ...state,
+                // The session keeps running, so the error isn't kept in the state
+                emit('error', {
                     error: {
                         code: 'UPDATE_ERROR',
                         message: 'Simulated sendStateUpdate error'
                     }
-                };
-                
-                notifyListeners();
+                });
                 
                 log('error', 'Send state update failed');
                 throw new Error('Simulated sendStateUpdate error');
             }
         },
         
+        getUpdateStats: () => {
+            return { queued: 0, merged: 0, dropped: 0, sent: 0 };
+        },
+        
         resetError: () => {
             trackMethodCall('resetError');
             log('info', 'Reset error');
             
+            if (state.sessionStatus === 'error') {
+                moveTo('idle', 'reset');
+            }
             state = {
                 ...state,
                 error: null
@@ -357,6 +506,19 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
             return [...logs];
         },
         
+        dispose: async (disposeOptions = {}) => {
+            trackMethodCall('dispose', disposeOptions);
+            log('info', 'Dispose', disposeOptions);
+            
+            if (disposeOptions.endSession && state.sessionId) {
+                await client.stopCasting();
+            }
+            
+            listeners.length = 0;
+            transitionListeners.length = 0;
+            eventListeners.clear();
+        },
+        
         // Mock extensions
         _mock: {
             setState: (newState: Partial<CastState>) => {
@@ -382,6 +544,11 @@ export function createMockCastClient(options: MockClientOptions = {}): CastClien
                 for (const key of Object.keys(methodCalls)) {
                     methodCalls[key] = [];
                 }
+            },
+            
+            receiveMessage: (type: string, payload: Record<string, unknown> = {}) => {
+                log('info', 'Receiver message', { type, payload });
+                emit('receiverMessage', { type, payload, timestamp: Date.now() });
             }
         }
     };
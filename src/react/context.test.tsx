@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StrictMode } from 'react';
+import { render, screen } from '@testing-library/react';
+import { createCastKitContext } from './context';
+import { createMockClient } from '../mock/createMockClient';
+
+describe('ManagedProvider', () => {
+  const CastKit = createCastKitContext();
+  
+  const DeviceName = () => {
+    const deviceName = CastKit.useSelector((state) => state.deviceName);
+    return <span>{deviceName ?? 'Not casting'}</span>;
+  };
+  
+  const createClient = vi.fn(() => {
+    const client = createMockClient();
+    vi.spyOn(client, 'dispose');
+    return client;
+  });
+  
+  it('should keep a single live client through StrictMode remounts', () => {
+    createClient.mockClear();
+    
+    const { unmount } = render(
+      <StrictMode>
+        <CastKit.ManagedProvider createClient={createClient}>
+          <DeviceName />
+        </CastKit.ManagedProvider>
+      </StrictMode>
+    );
+    
+    expect(screen.getByText('Not casting')).toBeInTheDocument();
+    
+    const clients = createClient.mock.results.map((result) => result.value);
+    const live = clients.filter((client) => !vi.mocked(client.dispose).mock.calls.length);
+    expect(live).toHaveLength(1);
+    
+    unmount();
+    
+    for (const client of clients) {
+      expect(client.dispose).toHaveBeenCalled();
+    }
+  });
+});
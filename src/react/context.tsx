@@ -5,8 +5,8 @@
  */
 
 import React, { createContext, useContext, ReactNode, useState as reactUseState, useEffect, useRef, useMemo } from 'react';
-import { CastClient } from '../client/core/client';
-import { CastState } from '../client/core/types';
+import { CastClient, createCastClient } from '../client/core/client';
+import { CastClientOptions, CastState } from '../client/core/types';
 
 /**
  * Context value type
@@ -23,6 +23,24 @@ export interface ProviderProps {
   children: ReactNode;
 }
 
+/**
+ * Props for the provider that creates and disposes of its own client
+ */
+export interface ManagedProviderProps {
+  /**
+   * Options for the client, read when the client is created
+   */
+  options?: CastClientOptions;
+  
+  /**
+   * Create the client, e.g. a mock client in tests
+   * @default createCastClient
+   */
+  createClient?: (options?: CastClientOptions) => CastClient;
+  
+  children: ReactNode;
+}
+
 /**
  * Props for the When component
  */
@@ -86,6 +104,39 @@ export function createCastKitContext() {
     );
   }
 
+  /**
+   * Provider component that owns its client
+   * 
+   * The client is created on mount and disposed of on unmount, so remounts
+   * (StrictMode, hot reload) never leave a second client listening to the
+   * host. Children render once the client exists.
+   */
+  function ManagedProvider({ options, createClient = createCastClient, children }: ManagedProviderProps) {
+    // The options and factory are only read when a client is created
+    const create = useRef(() => createClient(options));
+    const [client, setClient] = reactUseState<CastClient | null>(null);
+    
+    // Create the client in an effect, render may run more than once per mount
+    useEffect(() => {
+      const owned = create.current();
+      setClient(owned);
+      
+      return () => {
+        owned.dispose();
+      };
+    }, []);
+    
+    const value = useMemo(() => (client ? { client } : null), [client]);
+    
+    if (!value) return null;
+    
+    return (
+      <Context.Provider value={value}>
+        {children}
+      </Context.Provider>
+    );
+  }
+
   /**
    * Custom hook to access the client from context
    */
@@ -215,6 +266,7 @@ export function createCastKitContext() {
     Context,
     Provider,
     ProviderFromClient,
+    ManagedProvider,
     useClient,
     useSelector,
     useState,
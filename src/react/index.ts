@@ -8,7 +8,8 @@
 export {
     CastKitContext,
     createCastKitContext,
-    type CastKitContextValue
+    type CastKitContextValue,
+    type ManagedProviderProps
 } from './context';
 
 // Export React components
@@ -0,0 +1,163 @@
+/**
+ * Tests for the Google Cast receiver adapter
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCafReceiverHost, type CastCustomMessageEvent, type CastReceiverFrameworkLike } from './caf';
+import { detectReceiverHost } from './hosts';
+import { initReceiver } from './index';
+
+/**
+ * Minimal stand-in for cast.framework.CastReceiverContext
+ */
+class FakeCastReceiverContext {
+  listeners = new Map<string, Set<(event: { senderId?: string; reason?: string }) => void>>();
+
+  messageListeners = new Map<string, Set<(event: CastCustomMessageEvent) => void>>();
+
+  start = vi.fn(() => {
+    this.fire('ready', {});
+  });
+
+  sendCustomMessage = vi.fn();
+
+  addEventListener(type: string, handler: (event: { senderId?: string; reason?: string }) => void) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)?.add(handler);
+  }
+
+  removeEventListener(type: string, handler: (event: { senderId?: string; reason?: string }) => void) {
+    this.listeners.get(type)?.delete(handler);
+  }
+
+  addCustomMessageListener(namespace: string, handler: (event: CastCustomMessageEvent) => void) {
+    if (!this.messageListeners.has(namespace)) this.messageListeners.set(namespace, new Set());
+    this.messageListeners.get(namespace)?.add(handler);
+  }
+
+  removeCustomMessageListener(namespace: string, handler: (event: CastCustomMessageEvent) => void) {
+    this.messageListeners.get(namespace)?.delete(handler);
+  }
+
+  fire(type: string, event: { senderId?: string; reason?: string }) {
+    for (const handler of [...(this.listeners.get(type) ?? [])]) handler(event);
+  }
+
+  /**
+   * Deliver a message from a sender on a namespace
+   */
+  receive(namespace: string, senderId: string, data: unknown) {
+    for (const handler of [...(this.messageListeners.get(namespace) ?? [])]) handler({ senderId, data });
+  }
+}
+
+/**
+ * Create a fake cast.framework around a fake receiver context
+ */
+function createFakeFramework(context = new FakeCastReceiverContext()): CastReceiverFrameworkLike {
+  return {
+    CastReceiverContext: { getInstance: () => context },
+    system: {
+      EventType: { READY: 'ready', SENDER_DISCONNECTED: 'senderdisconnected' },
+      MessageType: { JSON: 'JSON' },
+    },
+  };
+}
+
+const NAMESPACE = 'urn:x-cast:com.opengame.castkit';
+
+describe('Google Cast Receiver Adapter', () => {
+  afterEach(() => {
+    (window as { cast?: unknown }).cast = undefined;
+  });
+
+  it('starts the receiver context with the namespace and waits for it to be ready', async () => {
+    const context = new FakeCastReceiverContext();
+    const receiver = initReceiver({ host: createCafReceiverHost({ framework: createFakeFramework(context) }) });
+
+    await Promise.resolve();
+
+    expect(context.start).toHaveBeenCalledWith({ customNamespaces: { [NAMESPACE]: 'JSON' } });
+    expect(receiver.getState()).toMatchObject({ status: 'ready', host: 'cast' });
+    expect(context.listeners.get('ready')?.size).toBe(0);
+  });
+
+  it('passes sender messages on to the receiver', async () => {
+    const context = new FakeCastReceiverContext();
+    const receiver = initReceiver({ host: createCafReceiverHost({ framework: createFakeFramework(context) }) });
+    await Promise.resolve();
+
+    context.receive(NAMESPACE, 'sender-1', { type: 'CAST_CONNECT', initialState: { round: 1 } });
+    expect(receiver.getState()).toMatchObject({ status: 'connected', gameState: { round: 1 } });
+
+    context.receive(NAMESPACE, 'sender-1', JSON.stringify({ type: 'CAST_STATE_UPDATE', state: { score: 10 }, seq: 1 }));
+    expect(receiver.getState().gameState).toEqual({ round: 1, score: 10 });
+
+    context.receive(NAMESPACE, 'sender-1', { type: 'CAST_DISCONNECT' });
+    expect(receiver.getState().status).toBe('disconnected');
+  });
+
+  it('ignores messages on other namespaces', async () => {
+    const context = new FakeCastReceiverContext();
+    const receiver = initReceiver({
+      host: createCafReceiverHost({ framework: createFakeFramework(context), namespace: 'urn:x-cast:com.example.game' }),
+    });
+    await Promise.resolve();
+
+    context.receive(NAMESPACE, 'sender-1', { type: 'CAST_CONNECT', initialState: {} });
+    expect(receiver.getState().status).toBe('ready');
+
+    context.receive('urn:x-cast:com.example.game', 'sender-1', { type: 'CAST_CONNECT', initialState: {} });
+    expect(receiver.getState().status).toBe('connected');
+  });
+
+  it('treats a sender that goes away as a disconnect', async () => {
+    const context = new FakeCastReceiverContext();
+    const receiver = initReceiver({ host: createCafReceiverHost({ framework: createFakeFramework(context) }) });
+    await Promise.resolve();
+
+    context.receive(NAMESPACE, 'sender-1', { type: 'CAST_CONNECT', initialState: {} });
+    context.fire('senderdisconnected', { senderId: 'sender-1', reason: 'requested_by_sender' });
+
+    expect(receiver.getState().status).toBe('disconnected');
+  });
+
+  it('adds the sender ID to each message', () => {
+    const context = new FakeCastReceiverContext();
+    const handler = vi.fn();
+    const stopListening = createCafReceiverHost({ framework: createFakeFramework(context) }).listen?.(handler);
+
+    context.receive(NAMESPACE, 'sender-1', { type: 'CAST_STATE_UPDATE', state: {} });
+    context.fire('senderdisconnected', { senderId: 'sender-1', reason: 'error' });
+    stopListening?.();
+    context.receive(NAMESPACE, 'sender-1', { type: 'CAST_STATE_UPDATE', state: {} });
+
+    expect(handler.mock.calls).toEqual([
+      [{ type: 'CAST_STATE_UPDATE', state: {}, senderId: 'sender-1' }],
+      [{ type: 'CAST_DISCONNECT', senderId: 'sender-1', reason: 'error' }],
+    ]);
+  });
+
+  it('sends receiver messages to every sender on the namespace', async () => {
+    const context = new FakeCastReceiverContext();
+    const receiver = initReceiver({ host: createCafReceiverHost({ framework: createFakeFramework(context) }) });
+    await Promise.resolve();
+
+    receiver.send('countdownExpired', { round: 2 });
+
+    expect(context.sendCustomMessage).toHaveBeenCalledWith(NAMESPACE, undefined, {
+      type: 'CAST_RECEIVER_MESSAGE',
+      payload: { type: 'countdownExpired', payload: { round: 2 }, timestamp: expect.any(Number) },
+    });
+  });
+
+  it('is detected when the Cast receiver framework is on the page', () => {
+    (window as { cast?: unknown }).cast = { framework: createFakeFramework() };
+
+    expect(detectReceiverHost()?.type).toBe('cast');
+  });
+
+  it('throws without the Cast receiver framework', () => {
+    expect(() => createCafReceiverHost()).toThrow('cast.framework is not available');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Google Cast receiver adapter
+ *
+ * On a Chromecast the receiver page runs as a Cast Web Receiver app. Senders
+ * reach it over a custom message namespace instead of window messages, so
+ * this adapter starts the CAF receiver context, listens on the namespace and
+ * hands the sender messages to the receiver like any other host.
+ */
+
+import { DEFAULT_CAST_NAMESPACE, parseMessageObject } from '../client/bridge/protocol';
+import type { ReceiverHost } from './hosts';
+
+/**
+ * The parts of cast.framework.system.Event used by the adapter
+ */
+export interface CastSystemEvent {
+  type?: string;
+  senderId?: string;
+  reason?: string;
+}
+
+/**
+ * The parts of cast.framework.system.CustomMessageEvent used by the adapter
+ */
+export interface CastCustomMessageEvent {
+  senderId: string;
+  data: unknown;
+}
+
+/**
+ * The parts of cast.framework.CastReceiverContext used by the adapter
+ */
+export interface CastReceiverContextLike {
+  start(options?: { customNamespaces?: Record<string, string> }): unknown;
+  addEventListener(type: string, handler: (event: CastSystemEvent) => void): void;
+  removeEventListener(type: string, handler: (event: CastSystemEvent) => void): void;
+  addCustomMessageListener(namespace: string, handler: (event: CastCustomMessageEvent) => void): void;
+  removeCustomMessageListener(namespace: string, handler: (event: CastCustomMessageEvent) => void): void;
+  sendCustomMessage(namespace: string, senderId: string | undefined, data: unknown): void;
+}
+
+/**
+ * The parts of cast.framework used by the adapter
+ */
+export interface CastReceiverFrameworkLike {
+  CastReceiverContext: { getInstance(): CastReceiverContextLike };
+  system: {
+    EventType: { READY: string; SENDER_DISCONNECTED: string };
+    MessageType: { JSON: string };
+  };
+}
+
+/**
+ * Options for the Google Cast receiver adapter
+ */
+export interface CafReceiverHostOptions {
+  /**
+   * The Cast receiver framework, taken from `window.cast.framework` by default
+   */
+  framework?: CastReceiverFrameworkLike;
+
+  /**
+   * Namespace the senders send their messages on
+   * @default 'urn:x-cast:com.opengame.castkit'
+   */
+  namespace?: string;
+}
+
+/**
+ * Create a host for a page running as a Cast Web Receiver app
+ *
+ * Starts the receiver context, which is acknowledged by its READY event.
+ * Messages on the namespace are passed on with the ID of the sender, and a
+ * sender that goes away is reported as CAST_DISCONNECT. Messages from the
+ * receiver are sent on the same namespace, to all senders unless one is given.
+ */
+export function createCafReceiverHost(options: CafReceiverHostOptions = {}): ReceiverHost {
+  const framework = options.framework ?? (window as { cast?: { framework?: CastReceiverFrameworkLike } }).cast?.framework;
+
+  if (!framework?.CastReceiverContext) {
+    throw new Error('cast.framework is not available, load the Cast Web Receiver SDK first');
+  }
+
+  const namespace = options.namespace ?? DEFAULT_CAST_NAMESPACE;
+  const { EventType, MessageType } = framework.system;
+  const context = framework.CastReceiverContext.getInstance();
+
+  return {
+    type: 'cast',
+
+    handshake(signal) {
+      return new Promise<void>((resolve, reject) => {
+        const handleReady = () => {
+          context.removeEventListener(EventType.READY, handleReady);
+          resolve();
+        };
+
+        context.addEventListener(EventType.READY, handleReady);
+        signal.addEventListener('abort', () => {
+          context.removeEventListener(EventType.READY, handleReady);
+          reject(new Error('Handshake aborted'));
+        }, { once: true });
+
+        try {
+          context.start({ customNamespaces: { [namespace]: MessageType.JSON } });
+        } catch (error) {
+          context.removeEventListener(EventType.READY, handleReady);
+          reject(error);
+        }
+      });
+    },
+
+    send(message, senderId) {
+      // Without a sender ID the message goes to every sender
+      context.sendCustomMessage(namespace, senderId, message);
+    },
+
+    listen(handler) {
+      const handleMessage = (event: CastCustomMessageEvent) => {
+        const data = parseMessageObject(event.data);
+
+        if (data) {
+          handler({ ...data, senderId: event.senderId });
+        }
+      };
+
+      const handleSenderDisconnected = (event: CastSystemEvent) => {
+        handler({ type: 'CAST_DISCONNECT', senderId: event.senderId, reason: event.reason });
+      };
+
+      context.addCustomMessageListener(namespace, handleMessage);
+      context.addEventListener(EventType.SENDER_DISCONNECTED, handleSenderDisconnected);
+
+      return () => {
+        context.removeCustomMessageListener(namespace, handleMessage);
+        context.removeEventListener(EventType.SENDER_DISCONNECTED, handleSenderDisconnected);
+      };
+    },
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for the receiver hosts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createMessageHost,
+  createPresentationHost,
+  RECEIVER_READY_ACK_MESSAGE,
+  RECEIVER_READY_MESSAGE,
+} from './hosts';
+import { PROTOCOL_VERSION } from '../client/bridge/protocol';
+
+/**
+ * Transport whose incoming messages are pushed by the test
+ */
+function createFakeTransport() {
+  const handlers = new Set<(event: MessageEvent) => void>();
+
+  return {
+    send: vi.fn(),
+    listen(handler: (event: MessageEvent) => void) {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    receive(data: unknown) {
+      for (const handler of [...handlers]) handler(new MessageEvent('message', { data }));
+    },
+    handlers,
+  };
+}
+
+describe('Receiver hosts', () => {
+  it('sends the ready message and waits for the acknowledgement', async () => {
+    const transport = createFakeTransport();
+    const host = createMessageHost('opengame', transport);
+    let acknowledged = false;
+
+    const handshake = host.handshake(new AbortController().signal).then(() => {
+      acknowledged = true;
+    });
+
+    expect(transport.send).toHaveBeenCalledWith({
+      type: RECEIVER_READY_MESSAGE,
+      payload: { protocolVersion: PROTOCOL_VERSION },
+    });
+
+    transport.receive(JSON.stringify({ type: 'CAST_STATE_UPDATE' }));
+    await Promise.resolve();
+    expect(acknowledged).toBe(false);
+
+    transport.receive(JSON.stringify({ type: RECEIVER_READY_ACK_MESSAGE }));
+    await handshake;
+
+    expect(acknowledged).toBe(true);
+    expect(transport.handlers.size).toBe(0);
+  });
+
+  it('sends receiver messages over the transport', () => {
+    const transport = createFakeTransport();
+    const message = {
+      type: 'CAST_RECEIVER_MESSAGE' as const,
+      payload: { type: 'videoEnded', payload: {} },
+    };
+
+    createMessageHost('opengame', transport).send?.(message);
+
+    expect(transport.send).toHaveBeenCalledWith(message);
+  });
+
+  it('stops listening when the handshake is aborted', async () => {
+    const transport = createFakeTransport();
+    const controller = new AbortController();
+
+    const handshake = createMessageHost('parent', transport).handshake(controller.signal);
+    controller.abort();
+
+    await expect(handshake).rejects.toThrow('Handshake aborted');
+    expect(transport.handlers.size).toBe(0);
+  });
+
+  it('fails when the ready message cannot be sent', async () => {
+    const transport = createFakeTransport();
+    transport.send.mockImplementation(() => {
+      throw new Error('window.ReactNativeWebView is not available');
+    });
+
+    await expect(createMessageHost('opengame', transport).handshake(new AbortController().signal))
+      .rejects.toThrow('window.ReactNativeWebView is not available');
+  });
+
+  it('waits for the presentation connection list', async () => {
+    const host = createPresentationHost(Promise.resolve([]));
+
+    await expect(host.handshake(new AbortController().signal)).resolves.toBeUndefined();
+  });
+});
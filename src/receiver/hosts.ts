@@ -0,0 +1,211 @@
+/**
+ * Receiver hosts
+ *
+ * The TV page runs inside a host: the Cast receiver runtime on a Chromecast,
+ * the OpenGame TV shell, a parent window embedding it, or a browser that
+ * presents it through the Presentation API. Each host has its own handshake,
+ * and the receiver is only ready once the host has acknowledged it. A page
+ * opened directly falls back to its own window.
+ */
+
+import { createCafReceiverHost } from './caf';
+import { isInOpenGameApp } from '../client/bridge/webview-bridge';
+import { parseMessageObject, PROTOCOL_VERSION, type ReceiverReply } from '../client/bridge/protocol';
+import { createReactNativeTransport, type BridgeTransport } from '../client/bridge/transports';
+
+/**
+ * Message the receiver sends to a message-based host when it starts
+ */
+export const RECEIVER_READY_MESSAGE = 'CAST_RECEIVER_READY';
+
+/**
+ * Message the host answers the ready message with
+ */
+export const RECEIVER_READY_ACK_MESSAGE = 'CAST_RECEIVER_READY_ACK';
+
+/**
+ * Kind of host the receiver runs in
+ */
+export type ReceiverHostType = 'cast' | 'opengame' | 'parent' | 'presentation' | 'window';
+
+/**
+ * Host of the receiver page
+ */
+export interface ReceiverHost {
+  /**
+   * Kind of host
+   */
+  readonly type: ReceiverHostType;
+
+  /**
+   * Announce the receiver to the host
+   *
+   * Resolves once the host acknowledges it. The signal is aborted when the
+   * receiver stops waiting, the host should then stop listening.
+   */
+  handshake(signal: AbortSignal): Promise<void>;
+
+  /**
+   * Listen for controller messages the host delivers itself
+   *
+   * Only needed by hosts that don't deliver messages to the window.
+   */
+  listen?(handler: (message: unknown) => void): () => void;
+
+  /**
+   * Send a message from the receiver to one sender, or to all of them
+   *
+   * Only needed by hosts that have their own channel to the senders.
+   */
+  send?(message: ReceiverReply, senderId?: string): void;
+}
+
+/**
+ * Globals defined by the Cast receiver runtime and the Presentation API
+ */
+interface ReceiverWindow extends Window {
+  cast?: {
+    framework?: {
+      CastReceiverContext?: unknown;
+    };
+  };
+  ReactNativeWebView?: unknown;
+}
+
+/**
+ * Navigator with the receiver side of the Presentation API
+ */
+interface PresentationNavigator extends Navigator {
+  presentation?: {
+    receiver?: { connectionList: Promise<unknown> } | null;
+  };
+}
+
+/**
+ * Reject when the signal is aborted
+ */
+function whenAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(new Error('Handshake aborted')), { once: true });
+  });
+}
+
+/**
+ * Create a host that shakes hands over a message transport
+ *
+ * Sends CAST_RECEIVER_READY and waits for CAST_RECEIVER_READY_ACK.
+ */
+export function createMessageHost(type: ReceiverHostType, transport: BridgeTransport): ReceiverHost {
+  return {
+    type,
+    send(message) {
+      transport.send(message);
+    },
+    handshake(signal) {
+      return new Promise<void>((resolve, reject) => {
+        const stopListening = transport.listen((event) => {
+          const data = parseMessageObject(event.data);
+
+          if (data?.type === RECEIVER_READY_ACK_MESSAGE) {
+            stopListening();
+            resolve();
+          }
+        });
+
+        whenAborted(signal).catch((error) => {
+          stopListening();
+          reject(error);
+        });
+
+        try {
+          transport.send({
+            type: RECEIVER_READY_MESSAGE,
+            payload: { protocolVersion: PROTOCOL_VERSION },
+          });
+        } catch (error) {
+          stopListening();
+          reject(error);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Create a host for a page embedded in another window
+ */
+export function createParentWindowHost(targetOrigin = '*'): ReceiverHost {
+  return createMessageHost('parent', {
+    send(message) {
+      window.parent.postMessage(message, targetOrigin);
+    },
+    listen(handler) {
+      // Only the embedding window can acknowledge the handshake
+      const listener = (event: MessageEvent) => {
+        if (event.source === window.parent) handler(event);
+      };
+
+      window.addEventListener('message', listener);
+      return () => window.removeEventListener('message', listener);
+    },
+  });
+}
+
+/**
+ * Create a host for a page presented through the Presentation API
+ *
+ * The browser acknowledges the page by resolving its connection list.
+ */
+export function createPresentationHost(connectionList: Promise<unknown>): ReceiverHost {
+  return {
+    type: 'presentation',
+    async handshake(signal) {
+      await Promise.race([connectionList, whenAborted(signal)]);
+    },
+  };
+}
+
+/**
+ * Create a host for a page opened directly, e.g. in a browser tab
+ *
+ * Nothing around the page can acknowledge it, so the handshake succeeds
+ * right away and controllers post their messages to the page's window.
+ */
+export function createWindowHost(): ReceiverHost {
+  return {
+    type: 'window',
+    handshake: () => Promise.resolve(),
+  };
+}
+
+/**
+ * Find the host the receiver page runs in
+ *
+ * Returns null when the page isn't hosted, e.g. when it is opened directly.
+ */
+export function detectReceiverHost(): ReceiverHost | null {
+  if (typeof window === 'undefined') return null;
+
+  const receiverWindow = window as ReceiverWindow;
+  const framework = receiverWindow.cast?.framework;
+
+  if (framework?.CastReceiverContext) {
+    return createCafReceiverHost();
+  }
+
+  if (isInOpenGameApp() && receiverWindow.ReactNativeWebView) {
+    return createMessageHost('opengame', createReactNativeTransport());
+  }
+
+  const presentation = (navigator as PresentationNavigator).presentation;
+
+  if (presentation?.receiver) {
+    return createPresentationHost(presentation.receiver.connectionList);
+  }
+
+  if (window.parent && window.parent !== window) {
+    return createParentWindowHost();
+  }
+
+  return null;
+}
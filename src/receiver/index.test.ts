@@ -0,0 +1,584 @@
+/**
+ * Tests for the receiver
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { initReceiver, type ReceiverHost } from './index';
+
+/**
+ * Minimal stand-in for a receiving PresentationConnection
+ */
+class FakeReceiverConnection extends EventTarget {
+  constructor(public id: string) {
+    super();
+  }
+
+  sent: unknown[] = [];
+
+  receive(message: unknown) {
+    this.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message) }));
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+}
+
+/**
+ * Install a fake navigator.presentation.receiver
+ */
+function installPresentationReceiver(connections: FakeReceiverConnection[]) {
+  const list = Object.assign(new EventTarget(), { connections });
+
+  Object.defineProperty(navigator, 'presentation', {
+    configurable: true,
+    value: { receiver: { connectionList: Promise.resolve(list) } },
+  });
+
+  return list;
+}
+
+describe('Receiver', () => {
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'presentation');
+  });
+
+  it('handles messages posted to the window', () => {
+    const receiver = initReceiver();
+
+    window.dispatchEvent(
+      new MessageEvent('message', { data: { type: 'CAST_CONNECT', initialState: { score: 1 } } })
+    );
+
+    expect(receiver.getState()).toMatchObject({ status: 'connected', gameState: { score: 1 } });
+  });
+
+  it('handles messages from presentation connections', async () => {
+    const connection = new FakeReceiverConnection('presentation-1');
+    installPresentationReceiver([connection]);
+
+    const receiver = initReceiver();
+    await Promise.resolve();
+
+    connection.receive({ type: 'CAST_CONNECT', initialState: { score: 0 } });
+    connection.receive({ type: 'CAST_STATE_UPDATE', state: { level: 2 } });
+
+    expect(receiver.getState()).toMatchObject({
+      status: 'connected',
+      gameState: { score: 0, level: 2 },
+    });
+
+    connection.dispatchEvent(new Event('terminate'));
+
+    expect(receiver.getState().status).toBe('disconnected');
+  });
+
+  it('watches presentation connections that become available later', async () => {
+    const list = installPresentationReceiver([]);
+
+    const receiver = initReceiver();
+    await Promise.resolve();
+
+    const connection = new FakeReceiverConnection('presentation-2');
+    list.dispatchEvent(Object.assign(new Event('connectionavailable'), { connection }));
+    connection.receive({ type: 'CAST_CONNECT', initialState: {} });
+
+    expect(receiver.getState().status).toBe('connected');
+  });
+
+  it('ignores state updates older than the last one applied', () => {
+    const receiver = initReceiver();
+    const post = (data: unknown) => window.dispatchEvent(new MessageEvent('message', { data }));
+
+    post({ type: 'CAST_CONNECT', initialState: { score: 0 } });
+    post({ type: 'CAST_STATE_UPDATE', state: { score: 2 }, seq: 2 });
+    post({ type: 'CAST_STATE_UPDATE', state: { score: 1 }, seq: 1 });
+
+    expect(receiver.getState()).toMatchObject({ gameState: { score: 2 }, lastSeq: 2 });
+
+    // A new session starts numbering again
+    post({ type: 'CAST_CONNECT', initialState: {} });
+    post({ type: 'CAST_STATE_UPDATE', state: { score: 1 }, seq: 1 });
+
+    expect(receiver.getState()).toMatchObject({ gameState: { score: 1 }, lastSeq: 1 });
+  });
+
+  describe('window messages', () => {
+    const connect = { type: 'CAST_CONNECT', initialState: {} };
+
+    it('only handles messages from the allowed origins', () => {
+      const receiver = initReceiver({ allowedOrigins: ['https://game.example'] });
+
+      window.dispatchEvent(new MessageEvent('message', { data: connect, origin: 'https://evil.example' }));
+      expect(receiver.getState().status).not.toBe('connected');
+
+      window.dispatchEvent(new MessageEvent('message', { data: connect, origin: 'https://game.example' }));
+      expect(receiver.getState().status).toBe('connected');
+    });
+
+    it('ignores messages from other windows', () => {
+      const frame = document.createElement('iframe');
+      document.body.appendChild(frame);
+
+      try {
+        const receiver = initReceiver();
+
+        window.dispatchEvent(new MessageEvent('message', { data: connect, source: frame.contentWindow }));
+
+        expect(receiver.getState().status).not.toBe('connected');
+      } finally {
+        frame.remove();
+      }
+    });
+
+    it('handles messages from the embedding window of a parent host', () => {
+      const frame = document.createElement('iframe');
+      document.body.appendChild(frame);
+
+      try {
+        const receiver = initReceiver({
+          host: { type: 'parent', handshake: () => new Promise<void>(() => {}) },
+        });
+        vi.spyOn(window, 'parent', 'get').mockReturnValue(frame.contentWindow as Window);
+
+        window.dispatchEvent(new MessageEvent('message', { data: connect, source: frame.contentWindow }));
+
+        expect(receiver.getState().status).toBe('connected');
+      } finally {
+        vi.restoreAllMocks();
+        frame.remove();
+      }
+    });
+  });
+
+  describe('state patches', () => {
+    const post = (data: unknown) => {
+      window.dispatchEvent(new MessageEvent('message', { data }));
+    };
+
+    it('applies patches to the state they were computed against', () => {
+      const receiver = initReceiver();
+
+      post({ type: 'CAST_CONNECT', initialState: { score: 0, players: { a: { hp: 3 } }, bonus: true } });
+      post({
+        type: 'CAST_STATE_PATCH',
+        patch: [
+          { op: 'replace', path: '/players/a/hp', value: 2 },
+          { op: 'remove', path: '/bonus' },
+        ],
+        baseVersion: 0,
+        version: 1,
+      });
+
+      expect(receiver.getState()).toMatchObject({
+        gameState: { score: 0, players: { a: { hp: 2 } } },
+        stateVersion: 1,
+      });
+      expect(receiver.getState().gameState).not.toHaveProperty('bonus');
+    });
+
+    it('ignores patches for another state version until a snapshot arrives', () => {
+      const receiver = initReceiver();
+
+      post({ type: 'CAST_CONNECT', initialState: { score: 0 } });
+      post({ type: 'CAST_STATE_PATCH', patch: [{ op: 'replace', path: '/score', value: 9 }], baseVersion: 3, version: 4 });
+
+      expect(receiver.getState()).toMatchObject({ gameState: { score: 0 }, stateVersion: 0 });
+
+      post({ type: 'CAST_STATE_UPDATE', state: { level: 2 }, version: 4, replace: true });
+
+      expect(receiver.getState()).toMatchObject({ gameState: { level: 2 }, stateVersion: 4 });
+      expect(receiver.getState().gameState).not.toHaveProperty('score');
+    });
+
+    it('asks the sender for a snapshot once when a patch does not apply', () => {
+      const send = vi.fn();
+      const receiver = initReceiver({ host: { type: 'parent', handshake: () => Promise.resolve(), send } });
+      const stalePatch = { type: 'CAST_STATE_PATCH', patch: [{ op: 'add', path: '/score', value: 1 }], baseVersion: 3, version: 4 };
+
+      post({ type: 'CAST_CONNECT', initialState: { score: 0 } });
+      post(stalePatch);
+      post({ type: 'CAST_STATE_PATCH', patch: [{ op: 'remove', path: '/missing' }], baseVersion: 0, version: 1 });
+
+      expect(send.mock.calls).toEqual([
+        [{ type: 'CAST_STATE_RESYNC', payload: { stateVersion: 0, timestamp: expect.any(Number) } }, 'default'],
+      ]);
+
+      post({ type: 'CAST_STATE_UPDATE', state: { score: 2 }, version: 4, replace: true });
+      post({ ...stalePatch, baseVersion: 7, version: 8 });
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send).toHaveBeenLastCalledWith(expect.objectContaining({ payload: expect.objectContaining({ stateVersion: 4 }) }), 'default');
+      expect(receiver.getState().gameState).toEqual({ score: 2 });
+    });
+
+    it('does not let patches modify object prototypes', () => {
+      const receiver = initReceiver();
+
+      post({ type: 'CAST_CONNECT', initialState: { score: 0 } });
+      post(JSON.stringify({
+        type: 'CAST_STATE_PATCH',
+        patch: [{ op: 'add', path: '/__proto__/polluted', value: 'yes' }],
+        baseVersion: 0,
+        version: 1,
+      }));
+
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(receiver.getState()).toMatchObject({ gameState: { score: 0 }, stateVersion: 0 });
+    });
+  });
+
+  describe('protocol', () => {
+    const post = (data: unknown) => window.dispatchEvent(new MessageEvent('message', { data }));
+
+    it('rejects messages that do not match the protocol', () => {
+      const receiver = initReceiver();
+      post({ type: 'CAST_CONNECT', initialState: { score: 0 } });
+
+      post({ type: 'CAST_STATE_UPDATE', state: 'score=5' });
+      post(JSON.stringify({ type: 'CAST_STATE_PATCH', patch: [{ op: 'swap', path: '/score' }], baseVersion: 0, version: 1 }));
+
+      const { gameState, protocolErrors } = receiver.getState();
+
+      expect(gameState).toEqual({ score: 0 });
+      expect(protocolErrors?.[0]).toMatchObject({
+        type: 'CAST_STATE_PATCH',
+        message: expect.stringContaining('Invalid CAST_STATE_PATCH message: patch.0.op'),
+      });
+      expect(protocolErrors).toContainEqual(expect.objectContaining({
+        type: 'CAST_STATE_UPDATE',
+        message: expect.stringContaining('Invalid CAST_STATE_UPDATE message: state'),
+      }));
+    });
+
+    it('ignores messages that are not meant for the receiver', () => {
+      const receiver = initReceiver();
+
+      post({ type: 'CAST_RECEIVER_READY_ACK' });
+      post('not json');
+      post({ source: 'react-devtools-bridge' });
+
+      expect(receiver.getState().protocolErrors).toBeUndefined();
+    });
+
+    it('accepts pings without changing the state', () => {
+      const receiver = initReceiver();
+      post({ type: 'CAST_CONNECT', initialState: { score: 0 } });
+      const state = receiver.getState();
+
+      post({ type: 'CAST_PING', timestamp: 1 });
+
+      expect(receiver.getState()).toEqual(state);
+    });
+  });
+
+  describe('senders', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    /**
+     * Host that delivers the messages of several senders
+     */
+    const createMultiSenderHost = () => {
+      let deliver: (message: unknown) => void = () => {};
+      const host: ReceiverHost = {
+        type: 'cast',
+        handshake: () => Promise.resolve(),
+        listen: (handler) => {
+          deliver = handler;
+          return () => {};
+        },
+      };
+
+      return {
+        host,
+        from: (senderId: string, message: Record<string, unknown>) => deliver({ ...message, senderId }),
+      };
+    };
+
+    it('tracks the connected senders with their names and join times', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const { host, from } = createMultiSenderHost();
+      const receiver = initReceiver({ host });
+      const joined = vi.fn();
+      receiver.on('senderJoined', joined);
+
+      vi.setSystemTime(1000);
+      from('phone-1', { type: 'CAST_CONNECT', initialState: {}, senderName: 'Ada' });
+      vi.setSystemTime(2000);
+      from('phone-2', { type: 'CAST_CONNECT', initialState: {}, senderName: 'Grace' });
+      from('phone-1', { type: 'CAST_CONNECT', initialState: {} });
+
+      expect(receiver.getState().senders).toEqual([
+        { id: 'phone-1', name: 'Ada', joinedAt: 1000 },
+        { id: 'phone-2', name: 'Grace', joinedAt: 2000 },
+      ]);
+      expect(joined.mock.calls.map(([{ sender }]) => sender.id)).toEqual(['phone-1', 'phone-2']);
+    });
+
+    it('keeps the running game when another sender joins', () => {
+      const { host, from } = createMultiSenderHost();
+      const receiver = initReceiver({ host });
+
+      from('phone-1', { type: 'CAST_CONNECT', initialState: { round: 1 } });
+      from('phone-1', { type: 'CAST_STATE_UPDATE', state: { round: 2 }, seq: 1 });
+      from('phone-2', { type: 'CAST_CONNECT', initialState: { round: 1 } });
+
+      expect(receiver.getState().gameState).toEqual({ round: 2 });
+
+      // Each sender numbers its own updates
+      from('phone-2', { type: 'CAST_STATE_UPDATE', state: { answer: 'B' }, seq: 1 });
+      from('phone-1', { type: 'CAST_STATE_UPDATE', state: { round: 1 }, seq: 1 });
+
+      expect(receiver.getState().gameState).toEqual({ round: 2, answer: 'B' });
+    });
+
+    it('applies patches from each sender against its own state version', () => {
+      const { host, from } = createMultiSenderHost();
+      const receiver = initReceiver({ host });
+      const patch = (path: string, value: unknown, baseVersion: number, seq: number) => ({
+        type: 'CAST_STATE_PATCH',
+        patch: [{ op: 'add', path, value }],
+        baseVersion,
+        version: baseVersion + 1,
+        seq,
+      });
+
+      from('phone-1', { type: 'CAST_CONNECT', initialState: { answers: {} } });
+      from('phone-1', patch('/answers/ada', 'A', 0, 1));
+      from('phone-2', { type: 'CAST_CONNECT', initialState: {} });
+      from('phone-2', patch('/answers/bob', 'C', 0, 1));
+      from('phone-1', patch('/answers/ada', 'B', 1, 2));
+      from('phone-2', patch('/answers/bob', 'D', 1, 2));
+
+      expect(receiver.getState()).toMatchObject({
+        gameState: { answers: { ada: 'B', bob: 'D' } },
+        stateVersion: 2,
+      });
+    });
+
+    it('is only disconnected when the last sender leaves', () => {
+      const { host, from } = createMultiSenderHost();
+      const receiver = initReceiver({ host });
+      const left = vi.fn();
+      receiver.on('senderLeft', left);
+
+      from('phone-1', { type: 'CAST_CONNECT', initialState: {} });
+      from('phone-2', { type: 'CAST_CONNECT', initialState: {} });
+      from('phone-1', { type: 'CAST_DISCONNECT', reason: 'requested_by_sender' });
+
+      expect(receiver.getState()).toMatchObject({ status: 'connected', senders: [{ id: 'phone-2' }] });
+
+      from('phone-3', { type: 'CAST_DISCONNECT' });
+      from('phone-2', { type: 'CAST_DISCONNECT' });
+
+      expect(receiver.getState()).toMatchObject({ status: 'disconnected', senders: [] });
+      expect(left.mock.calls).toEqual([
+        [{ sender: expect.objectContaining({ id: 'phone-1' }), reason: 'requested_by_sender' }],
+        [{ sender: expect.objectContaining({ id: 'phone-2' }), reason: undefined }],
+      ]);
+    });
+
+    it('treats each presentation connection as a sender', async () => {
+      const first = new FakeReceiverConnection('presentation-1');
+      const second = new FakeReceiverConnection('presentation-2');
+      installPresentationReceiver([first, second]);
+
+      const receiver = initReceiver();
+      await Promise.resolve();
+
+      first.receive({ type: 'CAST_CONNECT', initialState: {} });
+      second.receive({ type: 'CAST_CONNECT', initialState: {}, senderId: 'spoofed' });
+      first.dispatchEvent(new Event('terminate'));
+
+      expect(receiver.getState()).toMatchObject({ status: 'connected', senders: [{ id: 'presentation-2:2' }] });
+    });
+
+    it('tells apart the controllers of the same presentation', async () => {
+      const first = new FakeReceiverConnection('presentation-1');
+      const second = new FakeReceiverConnection('presentation-1');
+      installPresentationReceiver([first, second]);
+
+      const receiver = initReceiver();
+      await Promise.resolve();
+
+      first.receive({ type: 'CAST_CONNECT', initialState: { answers: {} } });
+      first.receive({ type: 'CAST_STATE_UPDATE', state: { round: 2 }, seq: 1 });
+      second.receive({ type: 'CAST_CONNECT', initialState: {} });
+      second.receive({
+        type: 'CAST_STATE_PATCH',
+        patch: [{ op: 'add', path: '/answers/bob', value: 'C' }],
+        baseVersion: 0,
+        version: 1,
+        seq: 1,
+      });
+
+      expect(receiver.getState()).toMatchObject({
+        senders: [{ id: 'presentation-1:1' }, { id: 'presentation-1:2' }],
+        gameState: { answers: { bob: 'C' }, round: 2 },
+      });
+
+      // Only the controller whose patch didn't apply is asked for a snapshot
+      second.receive({ type: 'CAST_STATE_PATCH', patch: [], baseVersion: 5, version: 6, seq: 2 });
+
+      expect(second.sent).toEqual([expect.objectContaining({ type: 'CAST_STATE_RESYNC' })]);
+      expect(first.sent).toEqual([]);
+    });
+
+    it('only replaces the state with snapshots of the leading sender', () => {
+      const { host, from } = createMultiSenderHost();
+      const receiver = initReceiver({ host });
+      const snapshot = (state: Record<string, unknown>) => ({
+        type: 'CAST_STATE_UPDATE',
+        state,
+        version: 1,
+        replace: true,
+        seq: 1,
+      });
+
+      from('phone-1', { type: 'CAST_CONNECT', initialState: { round: 1, answers: { ada: 'A' } } });
+      from('phone-2', { type: 'CAST_CONNECT', initialState: {} });
+      from('phone-2', snapshot({ bonus: true }));
+
+      expect(receiver.getState().gameState).toEqual({ round: 1, answers: { ada: 'A' }, bonus: true });
+
+      from('phone-1', snapshot({ round: 2 }));
+
+      expect(receiver.getState().gameState).toEqual({ round: 2 });
+
+      // The next sender leads once the first one leaves
+      from('phone-1', { type: 'CAST_DISCONNECT' });
+      from('phone-2', { ...snapshot({ round: 3 }), seq: 2 });
+
+      expect(receiver.getState().gameState).toEqual({ round: 3 });
+    });
+  });
+
+  describe('messages to the game', () => {
+    it('are sent over every open presentation connection', async () => {
+      const first = new FakeReceiverConnection('presentation-1');
+      const second = new FakeReceiverConnection('presentation-2');
+      installPresentationReceiver([first, second]);
+
+      const receiver = initReceiver();
+      await Promise.resolve();
+
+      second.dispatchEvent(new Event('close'));
+      receiver.send('videoEnded', { clip: 'intro' });
+
+      expect(first.sent).toEqual([
+        {
+          type: 'CAST_RECEIVER_MESSAGE',
+          payload: { type: 'videoEnded', payload: { clip: 'intro' }, timestamp: expect.any(Number) },
+        },
+      ]);
+      expect(second.sent).toEqual([]);
+    });
+
+    it('are sent through the host', () => {
+      const host: ReceiverHost = {
+        type: 'parent',
+        handshake: () => new Promise<void>(() => {}),
+        send: vi.fn(),
+      };
+
+      initReceiver({ host }).send('countdownExpired');
+
+      expect(host.send).toHaveBeenCalledWith({
+        type: 'CAST_RECEIVER_MESSAGE',
+        payload: { type: 'countdownExpired', payload: {}, timestamp: expect.any(Number) },
+      });
+    });
+
+    it('cannot be sent without a channel to the senders', () => {
+      const receiver = initReceiver({ host: null });
+
+      expect(() => receiver.send('countdownExpired')).toThrow('Cannot send countdownExpired');
+    });
+  });
+
+  describe('handshake', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('is ready once the host acknowledges the handshake', async () => {
+      let acknowledge = () => {};
+      const host: ReceiverHost = {
+        type: 'parent',
+        handshake: () => new Promise<void>((resolve) => {
+          acknowledge = resolve;
+        }),
+      };
+
+      const receiver = initReceiver({ host });
+      expect(receiver.getState()).toMatchObject({ status: 'initializing', host: 'parent' });
+
+      acknowledge();
+      await Promise.resolve();
+
+      expect(receiver.getState().status).toBe('ready');
+    });
+
+    it('fails when the host does not acknowledge in time', async () => {
+      vi.useFakeTimers();
+      const host: ReceiverHost = {
+        type: 'opengame',
+        handshake: (signal) => new Promise<void>((_, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('Handshake aborted')));
+        }),
+      };
+
+      const receiver = initReceiver({ host, handshakeTimeout: 2000 });
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(receiver.getState().status).toBe('initializing');
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(receiver.getState()).toMatchObject({
+        status: 'error',
+        error: 'Receiver host did not acknowledge the handshake within 2000ms',
+      });
+    });
+
+    it('fails when the page has no host', () => {
+      const receiver = initReceiver({ host: null });
+
+      expect(receiver.getState()).toMatchObject({ status: 'error', error: 'No receiver host found' });
+    });
+
+    it('falls back to the window host when the page is opened directly', async () => {
+      const receiver = initReceiver();
+      expect(receiver.getState().host).toBe('window');
+
+      await Promise.resolve();
+
+      expect(receiver.getState().status).toBe('ready');
+    });
+
+    it('fails without a host when one is required', () => {
+      const receiver = initReceiver({ requireHost: true });
+
+      expect(receiver.getState()).toMatchObject({ status: 'error', error: 'No receiver host found' });
+    });
+
+    it('keeps a connection made before the handshake finished', async () => {
+      let acknowledge = () => {};
+      const host: ReceiverHost = {
+        type: 'cast',
+        handshake: () => new Promise<void>((resolve) => {
+          acknowledge = resolve;
+        }),
+      };
+
+      const receiver = initReceiver({ host });
+      window.dispatchEvent(new MessageEvent('message', { data: { type: 'CAST_CONNECT', initialState: {} } }));
+
+      acknowledge();
+      await Promise.resolve();
+
+      expect(receiver.getState().status).toBe('connected');
+    });
+  });
+});
@@ -5,6 +5,63 @@
  * TV/broadcast applications to receive and handle cast sessions.
  */
 
+import { applyPatch, JsonPatchOperation } from '../client/core/json-patch';
+import {
+  CastReceiverMessage,
+  CastStateResyncMessage,
+  isReceiverMessageType,
+  parseReceiverMessage,
+  ReceiverConnectMessage,
+  ReceiverReply,
+  ReceiverStatePatchMessage,
+  ReceiverStateUpdateMessage
+} from '../client/bridge/protocol';
+import { createWindowHost, detectReceiverHost, ReceiverHost, ReceiverHostType } from './hosts';
+
+export {
+  createMessageHost,
+  createParentWindowHost,
+  createPresentationHost,
+  createWindowHost,
+  detectReceiverHost,
+  RECEIVER_READY_MESSAGE,
+  RECEIVER_READY_ACK_MESSAGE,
+  type ReceiverHost,
+  type ReceiverHostType
+} from './hosts';
+
+export {
+  parseReceiverMessage,
+  receiverMessageSchema,
+  RECEIVER_MESSAGE_TYPES,
+  type ReceiverMessage,
+  type ReceiverMessageType
+} from '../client/bridge/protocol';
+
+export {
+  createCafReceiverHost,
+  type CafReceiverHostOptions,
+  type CastCustomMessageEvent,
+  type CastReceiverContextLike,
+  type CastReceiverFrameworkLike,
+  type CastSystemEvent
+} from './caf';
+
+/**
+ * Default time in milliseconds the host has to acknowledge the receiver
+ */
+const DEFAULT_HANDSHAKE_TIMEOUT = 10000;
+
+/**
+ * Number of protocol errors kept in the receiver state
+ */
+const MAX_PROTOCOL_ERRORS = 10;
+
+/**
+ * ID of the sender when the host doesn't tell senders apart
+ */
+export const DEFAULT_SENDER_ID = 'default';
+
 /**
  * Get game parameters from the URL 
  */
@@ -29,6 +86,55 @@ export type ReceiverStatus =
   | 'disconnected'
   | 'error';
 
+/**
+ * A message for the receiver that didn't match the protocol
+ */
+export interface ReceiverProtocolError {
+  /** Type of the rejected message */
+  type: string;
+  
+  /** What was wrong with it */
+  message: string;
+  
+  /** When it was rejected */
+  timestamp: number;
+}
+
+/**
+ * A sender connected to the receiver
+ */
+export interface ReceiverSender {
+  /** ID of the sender, given by the host or by the receiver for each presentation connection */
+  id: string;
+  
+  /** Name the sender announced when it connected, e.g. the player's name */
+  name?: string;
+  
+  /** When the sender connected */
+  joinedAt: number;
+}
+
+/**
+ * Events emitted by the receiver, with their payloads
+ */
+export interface ReceiverEvents {
+  /** A sender connected */
+  senderJoined: { sender: ReceiverSender };
+  
+  /** A sender disconnected or went away */
+  senderLeft: { sender: ReceiverSender; reason?: string };
+}
+
+/**
+ * Name of a receiver event
+ */
+export type ReceiverEvent = keyof ReceiverEvents;
+
+/**
+ * Listener to a receiver event
+ */
+export type ReceiverEventListener<E extends ReceiverEvent> = (payload: ReceiverEvents[E]) => void;
+
 /**
  * Receiver state interface
  */
@@ -36,11 +142,26 @@ export interface ReceiverState {
   /** Current status of the receiver */
   status: ReceiverStatus;
   
+  /** Senders connected to the receiver, in the order they joined */
+  senders: ReceiverSender[];
+  
   /** Error message if status is 'error' */
   error?: string;
   
+  /** Kind of host the receiver runs in, once found */
+  host?: ReceiverHostType;
+  
   /** Current game state if any */
   gameState?: Record<string, unknown>;
+  
+  /** Version of the game state, as numbered by the sender of the last update */
+  stateVersion?: number;
+  
+  /** Sequence number of the last state update applied, from any sender */
+  lastSeq?: number;
+  
+  /** Messages rejected for not matching the protocol, newest first */
+  protocolErrors?: ReceiverProtocolError[];
 }
 
 /**
@@ -57,6 +178,18 @@ export interface ReceiverOptions {
   
   /** Callback for state updates */
   onStateChange?: ReceiverCallback;
+  
+  /** Host to shake hands with, found from the page's environment by default */
+  host?: ReceiverHost | null;
+  
+  /** Fail instead of falling back to the window host when no host is found */
+  requireHost?: boolean;
+  
+  /** Origins allowed to post messages to the receiver's window, any origin by default */
+  allowedOrigins?: string[];
+  
+  /** Time in milliseconds the host has to acknowledge the receiver, defaults to 10000 */
+  handshakeTimeout?: number;
 }
 
 /**
@@ -68,6 +201,31 @@ export interface Receiver {
   
   /** Subscribe to state changes */
   subscribe(callback: ReceiverCallback): () => void;
+  
+  /** Listen to a receiver event, returns a function that removes the listener */
+  on<E extends ReceiverEvent>(event: E, listener: ReceiverEventListener<E>): () => void;
+  
+  /** Send a message to the game, delivered to `client.onReceiverMessage` handlers */
+  send(type: string, payload?: Record<string, unknown>): void;
+}
+
+/**
+ * The parts of PresentationConnection used by the receiver
+ */
+interface ReceiverConnection extends EventTarget {
+  readonly id: string;
+  send(data: string): void;
+}
+
+/**
+ * Navigator with the receiver side of the Presentation API
+ */
+interface PresentationNavigator extends Navigator {
+  presentation?: {
+    receiver?: {
+      connectionList: Promise<EventTarget & { connections: ReceiverConnection[] }>;
+    } | null;
+  };
 }
 
 /**
@@ -77,13 +235,30 @@ class CastKitReceiver implements Receiver {
   private state: ReceiverState;
   private callbacks: ReceiverCallback[] = [];
   private debug: boolean;
+  private host: ReceiverHost | null;
+  private allowedOrigins: string[] | null;
+  private eventListeners = new Map<ReceiverEvent, Set<ReceiverEventListener<never>>>();
+  
+  // Controllers of the same presentation share its connection ID, so each
+  // connection gets a sender ID of its own
+  private connections = new Map<ReceiverConnection, string>();
+  private connectionCount = 0;
+  
+  // Each sender numbers its own state updates and state versions
+  private lastSeqs = new Map<string, number>();
+  private stateVersions = new Map<string, number>();
+  
+  // Senders asked for a snapshot that haven't sent one yet
+  private resyncRequested = new Set<string>();
   
   constructor(options: ReceiverOptions = {}) {
     this.debug = options.debug || false;
+    this.allowedOrigins = options.allowedOrigins ?? null;
     
     // Initialize state
     this.state = {
-      status: 'initializing'
+      status: 'initializing',
+      senders: []
     };
     
     // Add callback if provided
@@ -93,15 +268,16 @@ class CastKitReceiver implements Receiver {
     
     this.log('Receiver initialized');
     
-    // Simulate initialization and ready state for demo
-    setTimeout(() => {
-      this.updateState({
-        status: 'ready'
-      });
-    }, 500);
+    // A page opened directly talks to controllers through its own window
+    this.host = options.host === undefined
+      ? detectReceiverHost() ?? (options.requireHost ? null : createWindowHost())
+      : options.host;
     
     // Listen for cast messages from the OpenGame SDK
-    this.setupMessageHandlers();
+    this.setupMessageHandlers(this.host);
+    
+    // The receiver is ready once its host acknowledges it
+    this.connectHost(this.host, options.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT);
   }
   
   /**
@@ -126,6 +302,117 @@ class CastKitReceiver implements Receiver {
     };
   }
   
+  /**
+   * Listen to a receiver event, returns a function that removes the listener
+   */
+  public on<E extends ReceiverEvent>(event: E, listener: ReceiverEventListener<E>): () => void {
+    let listeners = this.eventListeners.get(event);
+    
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(event, listeners);
+    }
+    
+    listeners.add(listener);
+    
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+  
+  /**
+   * Send a message to the game
+   * 
+   * Goes through the host when it has a channel to the senders, and over
+   * every open presentation connection.
+   */
+  public send(type: string, payload: Record<string, unknown> = {}): void {
+    if (!this.host?.send && this.connections.size === 0) {
+      throw new Error(`Cannot send ${type}: the receiver has no channel to the senders`);
+    }
+    
+    const message: CastReceiverMessage = {
+      type: 'CAST_RECEIVER_MESSAGE',
+      payload: { type, payload, timestamp: Date.now() }
+    };
+    
+    this.log('Sending message', message);
+    this.deliver(message);
+  }
+  
+  /**
+   * Send a message to one sender, or to all of them
+   * 
+   * Returns false if the receiver has no channel to the sender.
+   */
+  private deliver(message: ReceiverReply, senderId?: string): boolean {
+    let delivered = false;
+    
+    if (this.host?.send) {
+      if (senderId === undefined) {
+        this.host.send(message);
+      } else {
+        this.host.send(message, senderId);
+      }
+      delivered = true;
+    }
+    
+    // Presentation connections are senders of their own
+    for (const [connection, connectionSenderId] of this.connections) {
+      if (senderId === undefined || connectionSenderId === senderId) {
+        connection.send(JSON.stringify(message));
+        delivered = true;
+      }
+    }
+    
+    return delivered;
+  }
+  
+  /**
+   * Shake hands with the host, moving to 'ready' or 'error'
+   */
+  private async connectHost(host: ReceiverHost | null, timeout: number): Promise<void> {
+    if (!host) {
+      this.fail('No receiver host found');
+      return;
+    }
+    
+    this.log('Starting handshake', host.type);
+    this.updateState({ host: host.type });
+    
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    
+    try {
+      await host.handshake(controller.signal);
+      
+      this.log('Handshake acknowledged', host.type);
+      
+      // A controller may have connected already
+      if (this.state.status === 'initializing') {
+        this.updateState({ status: 'ready' });
+      }
+    } catch (error) {
+      this.fail(controller.signal.aborted
+        ? `Receiver host did not acknowledge the handshake within ${timeout}ms`
+        : `Receiver host handshake failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timer);
+      controller.abort();
+    }
+  }
+  
+  /**
+   * Move to 'error' if the receiver is still initializing
+   */
+  private fail(error: string): void {
+    this.log(error);
+    
+    if (this.state.status === 'initializing') {
+      this.updateState({ status: 'error', error });
+    }
+  }
+  
   /**
    * Update the receiver state
    */
@@ -151,6 +438,21 @@ class CastKitReceiver implements Receiver {
     }
   }
   
+  /**
+   * Call the listeners to a receiver event
+   */
+  private emit<E extends ReceiverEvent>(event: E, payload: ReceiverEvents[E]): void {
+    const listeners = this.eventListeners.get(event) as Set<ReceiverEventListener<E>> | undefined;
+    
+    for (const listener of listeners ?? []) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.log(`Error in ${event} listener`, error);
+      }
+    }
+  }
+  
   /**
    * Log message if debug is enabled
    */
@@ -163,77 +465,372 @@ class CastKitReceiver implements Receiver {
   /**
    * Set up message handlers for broadcast-controller communication
    */
-  private setupMessageHandlers(): void {
+  private setupMessageHandlers(host: ReceiverHost | null): void {
     // Set up handlers for messages from the OpenGame SDK
     // or other casting technologies
     
     window.addEventListener('message', (event) => {
-      try {
-        const data = typeof event.data === 'string' 
-          ? JSON.parse(event.data) 
-          : event.data;
-          
-        if (!data || !data.type) {
-          return;
+      if (!this.isTrustedEvent(event)) {
+        this.log('Message from untrusted source dropped', event.origin);
+        return;
+      }
+      
+      this.handleMessage(event.data);
+    });
+    
+    // Hosts such as the Cast receiver runtime deliver messages themselves
+    host?.listen?.((message) => {
+      this.handleMessage(message);
+    });
+    
+    // Pages opened through the Presentation API get their messages
+    // over presentation connections instead
+    const presentation = (navigator as PresentationNavigator).presentation;
+    
+    presentation?.receiver?.connectionList
+      .then((list) => {
+        for (const connection of list.connections) {
+          this.watchConnection(connection);
         }
         
-        this.log('Received message', data);
-        
-        switch (data.type) {
-          case 'CAST_CONNECT':
-            this.handleConnect(data);
-            break;
-            
-          case 'CAST_DISCONNECT':
-            this.handleDisconnect(data);
-            break;
-            
-          case 'CAST_STATE_UPDATE':
-            this.handleStateUpdate(data);
-            break;
-        }
-      } catch (error) {
-        this.log('Error processing message', error);
+        list.addEventListener('connectionavailable', (event) => {
+          this.watchConnection((event as Event & { connection: ReceiverConnection }).connection);
+        });
+      })
+      .catch((error) => {
+        this.log('Error accessing presentation connections', error);
+      });
+  }
+  
+  /**
+   * Check that a window message comes from an allowed origin and window
+   * 
+   * Hosts post into the receiver's window, or from the window embedding it.
+   * A page opened directly also takes messages from the window that opened
+   * it. Messages from any other window (iframes, popups) are dropped, while
+   * transports without a source window (MessagePort, document events)
+   * report null.
+   */
+  private isTrustedEvent(event: MessageEvent): boolean {
+    if (this.allowedOrigins && !this.allowedOrigins.includes(event.origin)) {
+      return false;
+    }
+    
+    const { source } = event;
+    
+    if (!source || source === window) {
+      return true;
+    }
+    
+    switch (this.host?.type) {
+      case 'parent':
+        return source === window.parent;
+      case 'window':
+        return source === window.opener;
+      default:
+        return false;
+    }
+  }
+  
+  /**
+   * Handle messages and closing of a presentation connection
+   */
+  private watchConnection(connection: ReceiverConnection): void {
+    // Each presentation connection is its own sender
+    const senderId = `${connection.id}:${++this.connectionCount}`;
+    
+    this.log('Presentation connection available', { id: connection.id, senderId });
+    this.connections.set(connection, senderId);
+    
+    connection.addEventListener('message', (event) => {
+      this.handleMessage((event as MessageEvent).data, senderId);
+    });
+    
+    const handleClose = (event: Event) => {
+      this.connections.delete(connection);
+      this.handleDisconnect(senderId, event.type);
+    };
+    
+    connection.addEventListener('close', handleClose);
+    connection.addEventListener('terminate', handleClose);
+  }
+  
+  /**
+   * Handle a message from the controller
+   * 
+   * Other messages share the window with the receiver's, so only messages
+   * with a receiver message type are validated. The sender is given by the
+   * channel the message came over, or by the host in `senderId`.
+   */
+  private handleMessage(message: unknown, channelSenderId?: string): void {
+    let data: unknown = message;
+    
+    if (typeof message === 'string') {
+      try {
+        data = JSON.parse(message);
+      } catch {
+        return;
       }
+    }
+    
+    const type = (data as { type?: unknown } | null)?.type;
+    
+    if (!isReceiverMessageType(type)) {
+      return;
+    }
+    
+    this.log('Received message', data);
+    
+    try {
+      const received = parseReceiverMessage(data);
+      const senderId = channelSenderId ?? received.senderId ?? DEFAULT_SENDER_ID;
+      
+      switch (received.type) {
+        case 'CAST_CONNECT':
+          this.handleConnect(received, senderId);
+          break;
+          
+        case 'CAST_DISCONNECT':
+          this.handleDisconnect(senderId, received.reason);
+          break;
+          
+        case 'CAST_STATE_UPDATE':
+          this.handleStateUpdate(received, senderId);
+          break;
+          
+        case 'CAST_STATE_PATCH':
+          this.handleStatePatch(received, senderId);
+          break;
+          
+        case 'CAST_PING':
+          // Pings only keep the connection alive
+          break;
+      }
+    } catch (error) {
+      this.recordProtocolError(type, error);
+    }
+  }
+  
+  /**
+   * Keep a rejected message in the state
+   */
+  private recordProtocolError(type: string, error: unknown): void {
+    const protocolError: ReceiverProtocolError = {
+      type,
+      message: error instanceof Error ? error.message : String(error),
+      timestamp: Date.now()
+    };
+    
+    this.log('Rejected message', protocolError);
+    
+    this.updateState({
+      protocolErrors: [protocolError, ...(this.state.protocolErrors ?? [])].slice(0, MAX_PROTOCOL_ERRORS)
     });
   }
   
   /**
    * Handle connection messages
+   * 
+   * The first sender starts the game with its initial state, senders that
+   * join later take over the running game.
    */
-  private handleConnect(data: Record<string, unknown>): void {
-    this.log('Controller connected', data);
+  private handleConnect(data: ReceiverConnectMessage, senderId: string): void {
+    this.log('Sender connected', { senderId, data });
+    
+    const { senders } = this.state;
+    const existing = senders.find(sender => sender.id === senderId);
+    const sender: ReceiverSender = {
+      id: senderId,
+      name: data.senderName ?? existing?.name,
+      joinedAt: existing?.joinedAt ?? Date.now()
+    };
+    const startsGame = senders.every(other => other.id === senderId);
+    
+    this.lastSeqs.set(senderId, 0);
+    this.stateVersions.set(senderId, 0);
+    this.resyncRequested.delete(senderId);
     
     this.updateState({
       status: 'connected',
-      gameState: data.initialState as Record<string, unknown> || {}
+      senders: existing
+        ? senders.map(other => (other === existing ? sender : other))
+        : [...senders, sender],
+      ...(startsGame && {
+        gameState: data.initialState || {},
+        stateVersion: 0,
+        lastSeq: 0
+      })
     });
+    
+    if (!existing) {
+      this.emit('senderJoined', { sender });
+    }
   }
   
   /**
-   * Handle disconnection messages
+   * Handle a sender that disconnected or went away
+   * 
+   * The receiver is only disconnected once the last sender left.
    */
-  private handleDisconnect(data: Record<string, unknown>): void {
-    this.log('Controller disconnected', data);
+  private handleDisconnect(senderId: string, reason?: string): void {
+    const sender = this.state.senders.find(other => other.id === senderId);
+    
+    if (!sender) {
+      this.log('Ignoring disconnect of an unknown sender', { senderId, reason });
+      return;
+    }
+    
+    this.log('Sender disconnected', { senderId, reason });
+    
+    const senders = this.state.senders.filter(other => other !== sender);
+    this.lastSeqs.delete(senderId);
+    this.stateVersions.delete(senderId);
+    this.resyncRequested.delete(senderId);
     
     this.updateState({
-      status: 'disconnected'
+      senders,
+      ...(senders.length === 0 && { status: 'disconnected' as const })
     });
+    
+    this.emit('senderLeft', { sender, reason });
   }
   
   /**
    * Handle state update messages
    */
-  private handleStateUpdate(data: Record<string, unknown>): void {
+  private handleStateUpdate(data: ReceiverStateUpdateMessage, senderId: string): void {
     this.log('State update received', data);
     
-    if (data.state) {
+    if (this.isStale(data, senderId)) {
+      return;
+    }
+    
+    this.markApplied(data, senderId);
+    
+    if (data.version !== undefined) {
+      this.stateVersions.set(senderId, data.version);
+    }
+    
+    if (data.replace) {
+      this.resyncRequested.delete(senderId);
+    }
+    
+    // Snapshots of the leading sender replace the whole state. Snapshots of
+    // the other senders and plain updates are merged into it, so a sender
+    // can't wipe out what the others added.
+    const replace = data.replace && this.isLeadingSender(senderId);
+    
+    this.updateState({
+      gameState: replace ? data.state : {
+        ...this.state.gameState,
+        ...data.state
+      },
+      stateVersion: data.version ?? this.state.stateVersion,
+      lastSeq: data.seq ?? this.state.lastSeq
+    });
+  }
+  
+  /**
+   * Handle state patch messages
+   */
+  private handleStatePatch(data: ReceiverStatePatchMessage, senderId: string): void {
+    this.log('State patch received', data);
+    
+    if (this.isStale(data, senderId)) {
+      return;
+    }
+    
+    // The patch only applies to the state it was computed against, as
+    // numbered by its sender, the sender sends a snapshot to resync
+    const stateVersion = this.stateVersions.get(senderId);
+    
+    if (data.baseVersion !== stateVersion) {
+      this.log('Ignoring patch for another state version', {
+        senderId,
+        baseVersion: data.baseVersion,
+        stateVersion
+      });
+      this.requestResync(senderId);
+      return;
+    }
+    
+    try {
+      const gameState = applyPatch(this.state.gameState || {}, data.patch as JsonPatchOperation[]);
+      
+      this.markApplied(data, senderId);
+      this.stateVersions.set(senderId, data.version);
       this.updateState({
-        gameState: {
-          ...this.state.gameState,
-          ...(data.state as Record<string, unknown>)
-        }
+        gameState,
+        stateVersion: data.version,
+        lastSeq: data.seq ?? this.state.lastSeq
       });
+    } catch (error) {
+      this.log('Error applying state patch', error);
+      this.requestResync(senderId);
+    }
+  }
+  
+  /**
+   * Check whether a sender leads the game
+   * 
+   * The sender that joined first leads, until it leaves and the next one
+   * takes over. Without known senders, any sender leads.
+   */
+  private isLeadingSender(senderId: string): boolean {
+    return (this.state.senders[0]?.id ?? senderId) === senderId;
+  }
+  
+  /**
+   * Ask a sender for a snapshot of its state
+   * 
+   * Only asked once until the sender sends a snapshot, later patches are
+   * computed against the same state and fail too.
+   */
+  private requestResync(senderId: string): void {
+    if (this.resyncRequested.has(senderId)) {
+      return;
+    }
+    
+    const message: CastStateResyncMessage = {
+      type: 'CAST_STATE_RESYNC',
+      payload: { stateVersion: this.stateVersions.get(senderId), timestamp: Date.now() }
+    };
+    
+    if (this.deliver(message, senderId)) {
+      this.log('Requested a snapshot', { senderId });
+      this.resyncRequested.add(senderId);
+    } else {
+      this.log('Cannot request a snapshot: the receiver has no channel to the senders', { senderId });
+    }
+  }
+  
+  /**
+   * Check whether a state update is older than the last one applied from its sender
+   * 
+   * Updates can be delivered out of order, applying an older one would
+   * overwrite newer state.
+   */
+  private isStale(data: { seq?: number }, senderId: string): boolean {
+    const lastSeq = this.lastSeqs.get(senderId) ?? 0;
+    
+    if (data.seq === undefined || data.seq > lastSeq) {
+      return false;
+    }
+    
+    this.log('Ignoring out of order state update', {
+      senderId,
+      seq: data.seq,
+      lastSeq
+    });
+    return true;
+  }
+  
+  /**
+   * Remember the newest state update applied from a sender
+   */
+  private markApplied(data: { seq?: number }, senderId: string): void {
+    if (data.seq !== undefined) {
+      this.lastSeqs.set(senderId, data.seq);
     }
   }
 }
@@ -0,0 +1,22 @@
+/**
+ * Cast Kit Relay - Command Line Entry Point
+ *
+ * Starts the reference relay for local development:
+ *
+ *   PORT=8787 node dist/relay/cli.js
+ */
+
+import { startCastRelay } from './index';
+
+startCastRelay({
+  port: Number(process.env.PORT) || 8787,
+  hostname: process.env.HOST || '127.0.0.1',
+  debug: true,
+})
+  .then((relay) => {
+    console.log(`Cast Kit relay listening on port ${relay.port}`);
+  })
+  .catch((error) => {
+    console.error('Failed to start Cast Kit relay:', error);
+    process.exit(1);
+  });
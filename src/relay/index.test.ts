@@ -0,0 +1,103 @@
+/**
+ * Tests for the reference relay
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CastRelay, startCastRelay } from './index';
+import { WebSocketBridge } from '../client/bridge/websocket-bridge';
+
+/**
+ * Wait for a WebSocket to open
+ */
+const opened = (socket: WebSocket) =>
+  new Promise<void>((resolve) => socket.addEventListener('open', () => resolve()));
+
+describe('Cast Relay', () => {
+  let relay: CastRelay;
+  let host: WebSocket;
+  let bridge: WebSocketBridge;
+
+  beforeEach(async () => {
+    relay = await startCastRelay({ port: 0 });
+    host = new WebSocket(`ws://127.0.0.1:${relay.port}/?room=ABC&role=host`);
+    await opened(host);
+  });
+
+  afterEach(async () => {
+    bridge?.close();
+    host.close();
+    await relay.close();
+  });
+
+  it('forwards requests to the host and replies back to the sender', async () => {
+    // Act as a casting host that answers CAST_READY
+    host.addEventListener('message', (event) => {
+      const message = JSON.parse(event.data);
+      if (message.type === 'CAST_READY') {
+        host.send(
+          JSON.stringify({
+            type: 'CAST_INITIALIZED',
+            payload: { available: true, devices: [] },
+            requestId: message.requestId,
+            source: 'cast-kit-native',
+          })
+        );
+      }
+    });
+
+    bridge = new WebSocketBridge({ url: `ws://127.0.0.1:${relay.port}/?room=ABC&role=sender` });
+
+    const response = await bridge.sendMessageWithResponse({
+      type: 'CAST_READY',
+      payload: { gameId: 'test-game', protocolVersion: 1, features: [] },
+      requestId: 'ready-1',
+    });
+
+    expect(response.payload.available).toBe(true);
+  });
+
+  it('drops messages that are not part of the protocol', async () => {
+    const received: string[] = [];
+    host.addEventListener('message', (event) => received.push(JSON.parse(event.data).type));
+
+    const sender = new WebSocket(`ws://127.0.0.1:${relay.port}/?room=ABC&role=sender`);
+    await opened(sender);
+
+    sender.send(JSON.stringify({ type: 'NOT_A_CAST_MESSAGE', payload: {} }));
+    sender.send('not json');
+    sender.send(JSON.stringify({ type: 'CAST_SCAN_DEVICES', payload: {} }));
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    sender.close();
+
+    expect(received).toEqual(['CAST_SCAN_DEVICES']);
+  });
+
+  it('closes the connection of a peer that sends a message over the limit', async () => {
+    await relay.close();
+    relay = await startCastRelay({ port: 0, maxPayload: 64 });
+    host = new WebSocket(`ws://127.0.0.1:${relay.port}/?room=ABC&role=host`);
+    await opened(host);
+
+    const sender = new WebSocket(`ws://127.0.0.1:${relay.port}/?room=ABC&role=sender`);
+    await opened(sender);
+    const closed = new Promise<CloseEvent>((resolve) => sender.addEventListener('close', resolve));
+
+    sender.send(JSON.stringify({ type: 'CAST_SCAN_DEVICES', payload: { padding: 'x'.repeat(64) } }));
+
+    expect((await closed).code).toBe(1009);
+  });
+
+  it('turns peers away from a full room', async () => {
+    await relay.close();
+    relay = await startCastRelay({ port: 0, maxConnectionsPerRoom: 1 });
+    host = new WebSocket(`ws://127.0.0.1:${relay.port}/?room=ABC&role=host`);
+    await opened(host);
+
+    const sender = new WebSocket(`ws://127.0.0.1:${relay.port}/?room=ABC&role=sender`);
+    const failed = new Promise<void>((resolve) => sender.addEventListener('error', () => resolve()));
+
+    await failed;
+    expect(sender.readyState).toBe(WebSocket.CLOSED);
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Cast Kit Relay
+ *
+ * A small reference relay for running the WebSocket bridge outside the
+ * OpenGame App during development and tests. Senders (web games) and hosts
+ * (casting services) join a room through the connection URL, for example
+ * `ws://localhost:8787/?room=ABC123&role=sender`, and every valid protocol
+ * message is forwarded to the peers on the other side of that room.
+ *
+ * The relay implements just enough of RFC 6455 for this purpose and has no
+ * dependencies beyond Node itself. It has no authentication and only basic
+ * limits, so it isn't meant to be exposed to the internet.
+ */
+
+import { createHash } from 'node:crypto';
+import { IncomingMessage, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { validateMessage } from '../client/bridge/protocol';
+
+/**
+ * Role of a peer connected to the relay
+ */
+export type RelayRole = 'sender' | 'host';
+
+/**
+ * Options for starting a relay
+ */
+export interface RelayOptions {
+  /**
+   * Port to listen on (0 picks a free port)
+   * @default 8787
+   */
+  port?: number;
+
+  /**
+   * Hostname to bind to
+   * @default '127.0.0.1'
+   */
+  hostname?: string;
+
+  /**
+   * Largest message in bytes a peer may send, larger ones close its connection
+   * @default 1048576
+   */
+  maxPayload?: number;
+
+  /**
+   * Maximum number of peers in one room, further peers are turned away
+   * @default 16
+   */
+  maxConnectionsPerRoom?: number;
+
+  /**
+   * Whether to enable debug logging
+   * @default false
+   */
+  debug?: boolean;
+}
+
+/**
+ * Running relay
+ */
+export interface CastRelay {
+  /**
+   * Port the relay is listening on
+   */
+  port: number;
+
+  /**
+   * Disconnect all peers and stop listening
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Connected peer
+ */
+interface RelayPeer {
+  socket: Duplex;
+  room: string;
+  role: RelayRole;
+  buffer: Buffer;
+  fragments: Buffer[];
+  fragmentsSize: number;
+}
+
+/**
+ * Decoded WebSocket frame
+ */
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+/**
+ * Encode an unmasked server frame
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+
+  if (payload.length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = payload.length;
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  header[0] = 0x80 | opcode;
+
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Read the payload length and offset of the first frame in a buffer, or
+ * return null if its header isn't complete yet
+ */
+function readFrameHeader(buffer: Buffer): { length: number; offset: number } | null {
+  if (buffer.length < 2) return null;
+
+  const length = buffer[1] & 0x7f;
+
+  if (length === 126) {
+    return buffer.length < 4 ? null : { length: buffer.readUInt16BE(2), offset: 4 };
+  }
+
+  if (length === 127) {
+    return buffer.length < 10 ? null : { length: Number(buffer.readBigUInt64BE(2)), offset: 10 };
+  }
+
+  return { length, offset: 2 };
+}
+
+/**
+ * Decode the first frame in a buffer, or return null if it isn't complete yet
+ */
+function decodeFrame(buffer: Buffer): { frame: Frame; size: number } | null {
+  const header = readFrameHeader(buffer);
+  if (!header) return null;
+
+  const masked = (buffer[1] & 0x80) !== 0;
+  const { length } = header;
+  let { offset } = header;
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+
+  return {
+    frame: {
+      fin: (buffer[0] & 0x80) !== 0,
+      opcode: buffer[0] & 0x0f,
+      payload,
+    },
+    size: offset + length,
+  };
+}
+
+/**
+ * Start a relay
+ */
+export function startCastRelay(options: RelayOptions = {}): Promise<CastRelay> {
+  const peers = new Set<RelayPeer>();
+  const maxPayload = options.maxPayload ?? 1048576;
+  const maxConnectionsPerRoom = options.maxConnectionsPerRoom ?? 16;
+
+  const log = (message: string, data?: unknown) => {
+    if (options.debug) {
+      console.log(`[CastKit Relay] ${message}`, data ?? '');
+    }
+  };
+
+  const server = createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('Upgrade Required');
+  });
+
+  /**
+   * Forward a text message to the peers on the other side of the room
+   */
+  const forward = (from: RelayPeer, text: string) => {
+    let message: unknown;
+
+    try {
+      message = JSON.parse(text);
+    } catch (_error) {
+      log('Dropping non-JSON message', text);
+      return;
+    }
+
+    if (!validateMessage(message)) {
+      log('Dropping invalid message', message);
+      return;
+    }
+
+    log(`${from.role} -> ${from.room}`, message.type);
+
+    const frame = encodeFrame(OPCODE_TEXT, Buffer.from(text));
+
+    for (const peer of peers) {
+      if (peer.room === from.room && peer.role !== from.role) {
+        peer.socket.write(frame);
+      }
+    }
+  };
+
+  /**
+   * Close the connection of a peer that sent a message over the size limit
+   */
+  const rejectOversize = (peer: RelayPeer) => {
+    log(`Closing ${peer.role} in ${peer.room}, message over ${maxPayload} bytes`);
+
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(CLOSE_MESSAGE_TOO_BIG);
+
+    peers.delete(peer);
+    peer.buffer = Buffer.alloc(0);
+    peer.fragments = [];
+    peer.fragmentsSize = 0;
+    peer.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+  };
+
+  /**
+   * Handle a complete frame from a peer
+   */
+  const handleFrame = (peer: RelayPeer, frame: Frame) => {
+    switch (frame.opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION:
+        peer.fragments.push(frame.payload);
+        peer.fragmentsSize += frame.payload.length;
+
+        // A fragmented message counts against the limit as a whole
+        if (peer.fragmentsSize > maxPayload) {
+          rejectOversize(peer);
+          break;
+        }
+
+        if (frame.fin) {
+          const text = Buffer.concat(peer.fragments).toString('utf8');
+          peer.fragments = [];
+          peer.fragmentsSize = 0;
+          forward(peer, text);
+        }
+        break;
+
+      case OPCODE_PING:
+        peer.socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        break;
+
+      case OPCODE_CLOSE:
+        peer.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+        break;
+    }
+  };
+
+  /**
+   * Accept a WebSocket upgrade
+   */
+  const handleUpgrade = (request: IncomingMessage, socket: Duplex) => {
+    const key = request.headers['sec-websocket-key'];
+
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const room = url.searchParams.get('room') ?? 'default';
+    const roomSize = [...peers].filter((peer) => peer.room === room).length;
+
+    if (roomSize >= maxConnectionsPerRoom) {
+      log(`Room ${room} is full`);
+      socket.end('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+
+    socket.write(
+      [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        '',
+      ].join('\r\n')
+    );
+
+    const peer: RelayPeer = {
+      socket,
+      room,
+      role: url.searchParams.get('role') === 'host' ? 'host' : 'sender',
+      buffer: Buffer.alloc(0),
+      fragments: [],
+      fragmentsSize: 0,
+    };
+
+    peers.add(peer);
+    log(`${peer.role} joined ${peer.room}`);
+
+    socket.on('data', (chunk: Buffer) => {
+      // Ignore what a peer turned away still sends
+      if (!peers.has(peer)) return;
+
+      peer.buffer = Buffer.concat([peer.buffer, chunk]);
+
+      while (peers.has(peer)) {
+        // Turn a frame over the limit away before buffering its payload
+        const header = readFrameHeader(peer.buffer);
+        if (header && header.length > maxPayload) {
+          rejectOversize(peer);
+          break;
+        }
+
+        const decoded = decodeFrame(peer.buffer);
+        if (!decoded) break;
+
+        peer.buffer = peer.buffer.subarray(decoded.size);
+        handleFrame(peer, decoded.frame);
+      }
+    });
+
+    socket.on('close', () => {
+      peers.delete(peer);
+      log(`${peer.role} left ${peer.room}`);
+    });
+
+    socket.on('error', () => {
+      socket.destroy();
+    });
+  };
+
+  server.on('upgrade', handleUpgrade);
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+
+    server.listen(options.port ?? 8787, options.hostname ?? '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      log(`Listening on ws://${options.hostname ?? '127.0.0.1'}:${port}`);
+
+      resolve({
+        port,
+        close: () =>
+          new Promise<void>((resolveClose) => {
+            for (const peer of peers) {
+              peer.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+              peer.socket.destroy();
+            }
+            peers.clear();
+
+            server.close(() => resolveClose());
+          }),
+      });
+    });
+  });
+}